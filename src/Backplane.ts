@@ -0,0 +1,84 @@
+// Backplane for sharing topic state, service messages and client lists between multiple TopicServer instances
+
+import { cloneDeep } from "lodash";
+import { DestType, Unsubscriber } from "./BaseClient";
+import { TopicMessage, WithMeta } from "./Messages";
+import { ServerMeta } from "./metaChannels";
+
+/**
+ * Message sent between {@link TopicServer} nodes over a backplane
+ */
+export type BackplaneMessage =
+    /**
+     * The clients connected to the sending node, replacing any previously sent list
+     */
+    | { type: "meta"; clients: ServerMeta["clients"] }
+    /**
+     * A topic message accepted by the sending node
+     */
+    | { type: "topic"; event: string; msg: WithMeta<TopicMessage> }
+    /**
+     * Topic messages on several channels accepted by the sending node, which must be applied together
+     */
+    | { type: "transaction"; parts: Array<{ event: string; msg: WithMeta<TopicMessage> }> }
+    /**
+     * An encoded service or service response message for clients that may be connected to other nodes
+     */
+    | { type: "service"; event: string; data: any; dest: DestType }
+    /**
+     * Request for all other nodes to send their meta and full topics, sent by joining nodes
+     */
+    | { type: "sync" };
+
+/**
+ * Backplane interface; this is the interface that {@link TopicServer} nodes use to communicate with each other
+ *
+ * Implementations are expected to deliver messages to every subscribed node except the publisher, in order per publisher
+ */
+export interface IBackplane {
+    /**
+     * Publishes a message to all other nodes
+     * @param nodeID The ID of the publishing node
+     * @param message The message
+     */
+    publish(nodeID: string, message: BackplaneMessage): void;
+    /**
+     * Subscribes a node to messages from all other nodes
+     * @param nodeID The ID of the subscribing node
+     * @param listener The listener, called with the message and the ID of the publishing node
+     * @returns The unsubscriber function
+     */
+    subscribe(nodeID: string, listener: (message: BackplaneMessage, nodeID: string) => void): Unsubscriber;
+}
+
+/**
+ * Reference backplane for nodes running in the same process, e.g. for testing
+ */
+export class InProcessBackplane implements IBackplane {
+    /**
+     * Map between node IDs and their listeners
+     */
+    private listeners: Map<string, (message: BackplaneMessage, nodeID: string) => void> = new Map();
+
+    publish(nodeID: string, message: BackplaneMessage): void {
+        for (const [id, listener] of this.listeners) {
+            if (id === nodeID) continue;
+            // Copy and deliver asynchronously, like a networked backplane would
+            const copy = cloneDeep(message);
+            setTimeout(() => {
+                if (this.listeners.get(id) === listener) {
+                    listener(copy, nodeID);
+                }
+            }, 0);
+        }
+    }
+
+    subscribe(nodeID: string, listener: (message: BackplaneMessage, nodeID: string) => void): Unsubscriber {
+        this.listeners.set(nodeID, listener);
+        return () => {
+            if (this.listeners.get(nodeID) === listener) {
+                this.listeners.delete(nodeID);
+            }
+        };
+    }
+}
@@ -0,0 +1,287 @@
+// Recording and playback of channel traffic ("bag files"), for reproducing field bugs offline
+
+import { createWriteStream, readFileSync, WriteStream } from "fs";
+import { z } from "zod";
+import { BaseClient, Unsubscriber } from "./BaseClient";
+import { metaMessageSchema, topicMessageSchema } from "./Messages";
+import { channelModeSchema, TopicChannel } from "./utils/Channel";
+import { diff, DiffResult, mergeDiff } from "./utils/Compare";
+import { JSONValue } from "./utils/JSON";
+
+/**
+ * A message recorded in a bag file, stored as one JSON line
+ */
+export const bagRecordSchema = z.object({
+    /**
+     * The time the message was recorded (in ms since the epoch)
+     */
+    timestamp: z.number(),
+    /**
+     * The name of the channel the message was sent or received on
+     */
+    channel: z.string(),
+    /**
+     * The mode of the channel
+     */
+    mode: channelModeSchema,
+    /**
+     * Whether the message was received ("in") or sent ("out") by the recording client
+     */
+    direction: z.union([z.literal("in"), z.literal("out")]),
+    /**
+     * The wrapped message
+     */
+    msg: metaMessageSchema.passthrough(),
+});
+export type BagRecord = z.infer<typeof bagRecordSchema>;
+
+/**
+ * Reads the records of a bag file, skipping lines that are not valid records (e.g. a partially written last line)
+ * @param path The path of the bag file
+ * @returns The records, in the order they were recorded
+ */
+export function readBag(path: string): BagRecord[] {
+    const records: BagRecord[] = [];
+    for (const line of readFileSync(path, "utf8").split("\n")) {
+        if (line.trim() === "") continue;
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(line);
+        } catch (e) {
+            console.warn(`Unparseable line in bag file ${path}, skipping it:`, line);
+            continue;
+        }
+        const result = bagRecordSchema.safeParse(parsed);
+        if (!result.success) {
+            console.warn(`Invalid record in bag file ${path}, skipping it:`, result.error);
+            continue;
+        }
+        records.push(result.data);
+    }
+    return records;
+}
+
+/**
+ * Records every message a {@link TopicServer} or {@link TopicClient} sends or receives into an append-only bag file
+ */
+export class BagRecorder {
+    /**
+     * The stream of the bag file
+     */
+    private stream: WriteStream;
+    /**
+     * Unsubscriber for the message tap
+     */
+    private untap: Unsubscriber;
+
+    /**
+     * Starts recording
+     * @param client The server or client to record
+     * @param path The path of the bag file, which is appended to if it exists
+     */
+    constructor(client: BaseClient<any>, path: string) {
+        this.stream = createWriteStream(path, { flags: "a" });
+        this.stream.on("error", (e) => console.warn(`Could not write to bag file ${path}:`, e));
+        this.untap = client.tap((channel, msg, direction) => {
+            const record: BagRecord = { timestamp: Date.now(), channel: channel.name, mode: channel.mode, direction, msg };
+            this.stream.write(JSON.stringify(record) + "\n");
+        });
+    }
+
+    /**
+     * Stops recording and closes the bag file
+     * @returns A promise that resolves when all records are written
+     */
+    stop(): Promise<void> {
+        this.untap();
+        return new Promise((resolve) => this.stream.end(resolve));
+    }
+}
+
+export interface IBagPlayerOptions {
+    /**
+     * Playback speed factor, e.g. 2 to play twice as fast as recorded
+     * @default 1
+     */
+    speed: number;
+    /**
+     * Whether to start over from the beginning when the end is reached
+     * @default false
+     */
+    loop: boolean;
+}
+
+/**
+ * Plays back the topic messages of a bag file by re-publishing them with {@link BaseClient.pubDiff}, with the original timing
+ *
+ * Only topic diffs on the given channels are played back; full topic requests and service traffic are left out, since they cannot be meaningfully repeated
+ */
+export class BagPlayer {
+    /**
+     * The topic records to play back, in recorded order
+     */
+    private records: Array<{ timestamp: number, channel: TopicChannel<JSONValue>, diff: DiffResult<JSONValue, JSONValue> }> = [];
+    /**
+     * Options
+     */
+    private options: IBagPlayerOptions;
+    /**
+     * Index of the next record to play
+     */
+    private position: number = 0;
+    /**
+     * The bag time (recorded timestamp) playback is at, as of {@link BagPlayer.wallClockStart}
+     */
+    private bagTime: number;
+    /**
+     * The wall clock time playback was (re)started, or undefined when paused
+     */
+    private wallClockStart?: number;
+    /**
+     * Timeout for playing the next record
+     */
+    private timeout?: ReturnType<typeof setTimeout>;
+    /**
+     * Listeners called when playback reaches the end without looping
+     */
+    private endListeners: Set<() => void> = new Set();
+
+    /**
+     * Creates a new player, paused at the start of the bag
+     * @param client The server or client to publish with
+     * @param records The records of the bag, e.g. from {@link readBag}
+     * @param channels The topic channels to play back
+     * @param options The playback options
+     */
+    constructor(private client: BaseClient<any>, records: BagRecord[], channels: TopicChannel<any>[], options?: Partial<IBagPlayerOptions>) {
+        this.options = {
+            speed: 1,
+            loop: false,
+            ...options
+        };
+        const channelMap = new Map(channels.map(channel => [channel.name, channel]));
+        for (const record of records) {
+            const channel = channelMap.get(record.channel);
+            if (channel === undefined || record.mode !== "topic" || record.msg.messageType !== "topic") continue;
+            const parse = topicMessageSchema.safeParse(record.msg);
+            if (!parse.success) continue;
+            this.records.push({ timestamp: record.timestamp, channel, diff: parse.data as DiffResult<JSONValue, JSONValue> });
+        }
+        this.bagTime = this.start;
+    }
+
+    /**
+     * The recorded timestamp of the first record
+     */
+    get start(): number {
+        return this.records[0]?.timestamp ?? 0;
+    }
+
+    /**
+     * The recorded timestamp of the last record
+     */
+    get end(): number {
+        return this.records[this.records.length - 1]?.timestamp ?? 0;
+    }
+
+    /**
+     * The recorded timestamp playback is currently at
+     */
+    get time(): number {
+        if (this.wallClockStart === undefined) {
+            return this.bagTime;
+        }
+        return this.bagTime + (Date.now() - this.wallClockStart) * this.options.speed;
+    }
+
+    /**
+     * Whether playback is running
+     */
+    get playing(): boolean {
+        return this.wallClockStart !== undefined;
+    }
+
+    /**
+     * Starts or resumes playback
+     */
+    play(): void {
+        if (this.playing) return;
+        this.wallClockStart = Date.now();
+        this.scheduleNext();
+    }
+
+    /**
+     * Pauses playback at the current time
+     */
+    pause(): void {
+        if (!this.playing) return;
+        this.bagTime = this.time;
+        this.wallClockStart = undefined;
+        clearTimeout(this.timeout);
+    }
+
+    /**
+     * Jumps to a point in the bag, publishing the changes to the value every played back topic had at that time
+     * Topics whose value at that time fails their schema keep their current value
+     * @param timestamp The recorded timestamp to jump to
+     */
+    seek(timestamp: number): void {
+        const wasPlaying = this.playing;
+        this.pause();
+        const values: Map<TopicChannel<JSONValue>, JSONValue> = new Map();
+        let position = 0;
+        for (; position < this.records.length && this.records[position].timestamp <= timestamp; position++) {
+            const record = this.records[position];
+            values.set(record.channel, mergeDiff(values.get(record.channel) ?? {}, record.diff));
+        }
+        values.forEach((value, channel) => {
+            // States that fail the schema, e.g. the empty topic of a client that just joined, would invalidate the topic
+            if (!channel.schema.safeParse(value).success) {
+                return;
+            }
+            const current = this.client.hasValidTopic(channel) ? this.client.getTopicSync(channel) : {};
+            const changes = diff(current, value, { arrays: channel.arrayDiff && channel.convergence === undefined });
+            if (changes.modified !== undefined || changes.deleted !== undefined || changes.arrays !== undefined) {
+                this.client.pubDiff(channel, changes);
+            }
+        });
+        this.position = position;
+        this.bagTime = timestamp;
+        if (wasPlaying) {
+            this.play();
+        }
+    }
+
+    /**
+     * Listens for playback reaching the end of the bag (never called when looping)
+     * @param listener The listener
+     * @returns The unsubscriber function
+     */
+    onEnd(listener: () => void): Unsubscriber {
+        this.endListeners.add(listener);
+        return () => {
+            this.endListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Schedules the next record to be played according to its recorded time
+     */
+    private scheduleNext(): void {
+        if (this.position >= this.records.length) {
+            if (this.options.loop && this.end > this.start) {
+                this.seek(this.start);
+            } else {
+                this.pause();
+                this.endListeners.forEach(listener => listener());
+            }
+            return;
+        }
+        const record = this.records[this.position];
+        this.timeout = setTimeout(() => {
+            this.position++;
+            this.client.pubDiff(record.channel, record.diff);
+            this.scheduleNext();
+        }, Math.max(0, (record.timestamp - this.time) / this.options.speed));
+    }
+}
@@ -1,13 +1,19 @@
 import { z, ZodError } from "zod";
-import { Channel, RequestType, ServiceChannel, ServiceResponseType, TopicChannel } from "./utils/Channel";
+import { Channel, DerivedTopicChannel, RequestType, ServiceChannel, ServiceResponseType, TopicChannel, TopicChannelValues } from "./utils/Channel";
 import { TopicServer } from "./Server";
-import { diff, DiffResult, mergeDiff, RecursivePartial } from "./utils/Compare";
-import { metaMessageSchema, MessageMeta, RequestFullTopicMessage, topicMessageSchema, requestFullTopicMessageSchema, TopicMessage, WithMeta, MessageType, ServiceMessage, serviceMessageSchema, ServiceResponseMessage, serviceResponseMessageSchema } from "./Messages";
+import { diff, DiffResult, diffTouchesPath, getPath, inlineArrayDiff, mergeDiff, PathValue, RecursivePartial, scopeDiff } from "./utils/Compare";
+import { metaMessageSchema, MessageMeta, RequestFullTopicMessage, topicMessageSchema, requestFullTopicMessageSchema, TopicMessage, WithMeta, MessageType, ServiceMessage, serviceMessageSchema, ServiceResponseMessage, serviceResponseMessageSchema, compressedTopicMessageSchema, CompressedTopicMessage, TransactionMessage, transactionMessageSchema } from "./Messages";
 import { JSONObject, JSONValue } from "./utils/JSON";
 import { v4 as uuidv4 } from 'uuid';
-import { serverMetaChannel, ServerMeta } from "./metaChannels";
+import { clientFeatures, serverMetaChannel, ServerMeta } from "./metaChannels";
 import zodToJsonSchema from "zod-to-json-schema";
-import { cloneDeep } from "lodash";
+import { cloneDeep, isEqual } from "lodash";
+import { Codec, jsonCodec } from "./utils/Codec";
+import { Compressor, defaultCompressionThreshold } from "./utils/Compression";
+import { TopicHistory } from "./utils/History";
+import { applyPatch, diffToPatch, JSONPatchOperation } from "./utils/JSONPatch";
+import { HybridLogicalClock, LWWTopicState } from "./utils/Convergence";
+import { migrateDiff } from "./utils/Migration";
 
 export const channelPrefix = "ch-";
 export const servicePrefix = "sv-";
@@ -36,6 +42,17 @@ export interface IBaseClientOptions {
      * @default false
      */
     logServiceValidationErrors: boolean;
+    /**
+     * Codec used to encode channel messages on the wire, must match between clients and server
+     * @default jsonCodec
+     */
+    codec: Codec;
+    /**
+     * Implementations of the compression algorithms used by channels with compression enabled, e.g. deflateCompressor from "webtopics/node"
+     * Messages on such channels are sent uncompressed if their algorithm is missing
+     * @default []
+     */
+    compressors: Compressor[];
 }
 
 export type OnReceiveTopicMessageArgs<T extends JSONValue, V = void> = {
@@ -77,10 +94,169 @@ export interface SubscriberMeta<T extends JSONValue> {
      * The source of the update
      */
     source: string;
+    /**
+     * The diff as JSON Patch operations, or a replacement of the whole value if the topic was not valid before (only when subscribed with {@link SubscribeOptions.patch})
+     */
+    patch?: JSONPatchOperation[];
 } 
 
+/**
+ * Options for subscribing to a topic channel
+ */
+export interface SubscribeOptions {
+    /**
+     * Also deliver the change as JSON Patch operations in {@link SubscriberMeta.patch}
+     * @default false
+     */
+    patch?: boolean;
+}
+
+/**
+ * A past value of a topic, rebuilt from its history
+ */
+export interface TopicHistoryState<T extends JSONValue> {
+    /**
+     * The timestamp of the diff that resulted in the value
+     */
+    timestamp: number;
+    /**
+     * The diff compared to the previous value
+     */
+    diff: DiffResult<T, T>;
+    /**
+     * The source of the diff
+     */
+    source: string;
+    /**
+     * The value after the diff was applied
+     */
+    value: RecursivePartial<T>;
+    /**
+     * Whether the value is valid according to the schema
+     */
+    valid: boolean;
+}
+
+/**
+ * Listener for every message sent or received on a channel, e.g. for recording traffic
+ * @param channel The channel the message was sent or received on
+ * @param msg The wrapped message (topic messages are always decompressed)
+ * @param direction Whether the message was received ("in") or sent by this client ("out")
+ */
+export type MessageTap = (channel: Channel<any>, msg: MessageMeta, direction: "in" | "out") => void;
+
+/**
+ * Event emitted when a gap in the sequence numbers of a topic channel is detected, and the full topic is requested to resync
+ */
+export interface ResyncEvent {
+    /**
+     * The channel that is resynced
+     */
+    channel: TopicChannel<any>;
+    /**
+     * The node whose messages were missed
+     */
+    node: string;
+    /**
+     * The sequence number that was expected
+     */
+    expected: number;
+    /**
+     * The sequence number that was received
+     */
+    received: number;
+}
+
+/**
+ * State of the publish rate limit of a throttled topic channel
+ */
+export interface TopicThrottleState {
+    /**
+     * The channel
+     */
+    channel: TopicChannel<JSONValue>;
+    /**
+     * Timeout for the end of the current window, undefined outside a window
+     */
+    timeout?: ReturnType<typeof setTimeout>;
+    /**
+     * The updates held back, as the topic value before the first of them and the value after applying all of them
+     */
+    pending?: { baseline: JSONValue, value: JSONValue, source: string, ephemeral: boolean };
+}
+
+/**
+ * Collects the updates of a transaction, see {@link BaseClient.transaction}
+ */
+export interface TopicTransaction {
+    /**
+     * Adds a new value for a topic channel to the transaction
+     * @param channel The channel to publish to
+     * @param data The new value, on top of the updates already in the transaction
+     * @param publishDeletes Whether to publish deletions of properties missing from the new value
+     */
+    pub<T extends JSONValue>(channel: TopicChannel<T>, data: RecursivePartial<T>, publishDeletes?: boolean): void;
+    /**
+     * Adds a raw diff for a topic channel to the transaction
+     * @param channel The channel to publish to
+     * @param diff The diff, on top of the updates already in the transaction
+     */
+    pubDiff<T extends JSONValue>(channel: TopicChannel<T>, diff: DiffResult<T, T>): void;
+}
+
+/**
+ * Topic message within a transaction, along with its channel
+ */
+export interface TransactionPart {
+    /**
+     * The channel
+     */
+    channel: TopicChannel<JSONValue>;
+    /**
+     * The wrapped topic message
+     */
+    msg: WithMeta<TopicMessage>;
+}
+
+/**
+ * Why the last diff received on a topic failed its schema, see {@link BaseClient.getValidationError}
+ */
+export interface TopicValidationError {
+    /**
+     * The validation error of the topic with the diff applied
+     */
+    error: ZodError;
+    /**
+     * The source of the diff
+     */
+    source: string;
+}
+
+/**
+ * Transition between valid and invalid diffs received on a topic, see {@link BaseClient.subValidity}
+ */
+export interface TopicValidity {
+    /**
+     * Whether the diff that caused the transition passed the schema, or true if the topic was reset
+     */
+    valid: boolean;
+    /**
+     * The source of the diff that caused the transition, or the own ID if the topic was reset
+     */
+    source: string;
+    /**
+     * The validation error, if the diff failed the schema
+     */
+    error?: ZodError;
+}
+
 export type Subscriber<T extends JSONValue> = (value: T, unsubscribe: Unsubscriber, meta: SubscriberMeta<T>) => void;
 
+/**
+ * Subscriber to the value at a path within a topic, see {@link BaseClient.subPath}
+ */
+export type PathSubscriber<T> = (value: T, unsubscribe: Unsubscriber, meta: SubscriberMeta<JSONValue>) => void;
+
 /**
  * Base class for {@link TopicClient} and {@link TopicServer} classes, responsible for keeping track of topics and services, and sending and receiving messages
  */
@@ -106,9 +282,17 @@ export abstract class BaseClient<V = void> {
      */
     protected topicsValid: Map<string, boolean> = new Map();
     /**
-     * Map of topic channels and their latest reasons for being invalid
+     * Map of topic channels and their latest reasons for being invalid, removed when a diff passes the schema again or the topic is reset
      */
     protected topicsInvalidReasons: Map<string, ZodError<any>> = new Map();
+    /**
+     * Map of topic channel names to the sources of the diffs in {@link BaseClient.topicsInvalidReasons}
+     */
+    protected topicsInvalidSources: Map<string, string> = new Map();
+    /**
+     * Map of topic channel names to the listeners for transitions between valid and invalid diffs
+     */
+    protected validityListeners: Map<string, Set<(validity: TopicValidity) => void>> = new Map();
     /**
      * Map of service channel names to their handlers
      */
@@ -129,6 +313,46 @@ export abstract class BaseClient<V = void> {
      * Map of topic to their last valid diffs and sources
      */
     protected lastValidDiffMap: Map<string, {diff: DiffResult<JSONValue, JSONValue>, source: string}> = new Map();
+    /**
+     * Map of topic channel names to their histories, for channels with history enabled
+     */
+    protected topicHistoryMap: Map<string, TopicHistory> = new Map();
+    /**
+     * Hybrid logical clock for ordering updates on channels with a convergence mode
+     */
+    protected clock: HybridLogicalClock;
+    /**
+     * Map of topic channel names to their last-writer-wins states, for channels with the "lww" convergence mode
+     */
+    protected lwwStates: Map<string, LWWTopicState> = new Map();
+    /**
+     * Map of topic channel names to the sequence number of the last topic message sent on them
+     */
+    protected sentSequences: Map<string, number> = new Map();
+    /**
+     * Map of topic channel names to the sequence numbers of the last topic messages received on them, per sending node
+     */
+    protected receivedSequences: Map<string, Map<string, number>> = new Map();
+    /**
+     * Set of listeners for resync events
+     */
+    protected resyncListeners: Set<(event: ResyncEvent) => void> = new Set();
+    /**
+     * Set of topic subscribers that also receive the changes as JSON Patch operations
+     */
+    private patchSubscribers: Set<Subscriber<JSONValue>> = new Set();
+    /**
+     * Subscriber calls held back while a transaction is applied, undefined outside a transaction
+     */
+    private pendingNotifications?: Array<() => void>;
+    /**
+     * Map of topic channel names to the state of their publish rate limits, for channels with throttling enabled
+     */
+    protected throttles: Map<string, TopicThrottleState> = new Map();
+    /**
+     * Set of listeners for every message sent or received on a channel
+     */
+    protected messageTaps: Set<MessageTap> = new Set();
     /**
      * Set of all initialized TopicChannels
      */
@@ -145,7 +369,9 @@ export abstract class BaseClient<V = void> {
         logTopics: false,
         logServices: false,
         logTopicValidationErrors: false,
-        logServiceValidationErrors: false
+        logServiceValidationErrors: false,
+        codec: jsonCodec,
+        compressors: []
     };
 
     // Abstract methods
@@ -171,6 +397,7 @@ export abstract class BaseClient<V = void> {
      */
     constructor(options?: Partial<IBaseClientOptions>) {
         this._id = uuidv4();
+        this.clock = new HybridLogicalClock(this._id);
         this.options = {
             ...this.options,
             ...options
@@ -188,7 +415,8 @@ export abstract class BaseClient<V = void> {
         const wrapped: Partial<ServerMeta> = {
             clients: {
                 [this._id]: {
-                    services: services
+                    services: services,
+                    features: clientFeatures
                 }
             }
         }
@@ -199,12 +427,16 @@ export abstract class BaseClient<V = void> {
      * Initalize the client by subscribing to the server meta channel, and publishing the client's meta data to the server
      */
     protected initialize(): void {
+        this.onRawEvent("transaction", (data: any, sender?: V) => {
+            this.onRawTransaction(data, sender);
+        });
         this.pub(serverMetaChannel, {
             clients: {
                 [this._id]: {
                     services: {
 
-                    }
+                    },
+                    features: clientFeatures
                 }
             }
         }, true, false);
@@ -244,6 +476,40 @@ export abstract class BaseClient<V = void> {
         return this.topicsValid.get(this.getChannelName(channel)) ?? false;
     }
 
+    /**
+     * Gets why the last diff received on a topic failed its schema
+     * @param channel The channel object
+     * @returns The validation error and the source of the diff, or undefined if the last diff passed the schema
+     */
+    getValidationError<T extends JSONValue>(channel: TopicChannel<T>): TopicValidationError | undefined {
+        const eventName = this.getChannelName(channel);
+        const error = this.topicsInvalidReasons.get(eventName);
+        const source = this.topicsInvalidSources.get(eventName);
+        return error === undefined || source === undefined ? undefined : { error, source };
+    }
+
+    /**
+     * Subscribes to the transitions between valid and invalid diffs received on a topic, e.g. for showing which client corrupts it
+     * Invalid diffs are not applied to a valid topic, so its subscribers keep the last valid value
+     * @param channel The channel object
+     * @param handler The handler function to call on every transition
+     * @returns The unsubscriber function
+     */
+    subValidity<T extends JSONValue>(channel: TopicChannel<T>, handler: (validity: TopicValidity) => void): Unsubscriber {
+        if (channel.mode !== "topic") {
+            throw new Error("Channel is not a topic channel");
+        }
+        this.initTopicChannel(channel);
+        const eventName = this.getChannelName(channel);
+        if (!this.validityListeners.has(eventName)) {
+            this.validityListeners.set(eventName, new Set());
+        }
+        this.validityListeners.get(eventName)!.add(handler);
+        return () => {
+            this.validityListeners.get(eventName)?.delete(handler);
+        };
+    }
+
     // Messages
 
     /**
@@ -257,6 +523,91 @@ export abstract class BaseClient<V = void> {
         return { ...rawMessage, timestamp: Date.now(), messageType, source: source ?? this._id };
     }
 
+    /**
+     * Wraps a diff into a topic message, adding a clock timestamp if the channel has a convergence mode
+     * @param channel The channel object
+     * @param diff The diff
+     * @param source The source of the message
+     * @returns The wrapped topic message
+     */
+    protected wrapTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, diff: DiffResult<T, T>, source?: string): WithMeta<TopicMessage> {
+        const msg = this.wrapMessage(diff as JSONObject, "topic", source) as WithMeta<TopicMessage>;
+        if (channel.convergence !== undefined) {
+            msg.hlc = this.clock.now();
+        }
+        if (channel.version !== undefined) {
+            msg.version = channel.version;
+        }
+        return msg;
+    }
+
+    /**
+     * Wraps the full topic according to internal records into a topic message, including the clock timestamps of all properties if the channel has a convergence mode
+     * @param channel The channel object
+     * @param source The source of the message
+     * @returns The wrapped topic message
+     */
+    protected wrapFullTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, source?: string): WithMeta<TopicMessage> {
+        const msg = this.wrapTopicMessage(channel, { modified: this._getUnsafeTopic(channel) } as DiffResult<T, T>, source);
+        const lwwState = this.lwwStates.get(this.getChannelName(channel));
+        if (lwwState !== undefined) {
+            msg.clocks = lwwState.serialize();
+            msg.horizon = lwwState.horizon;
+        }
+        return msg;
+    }
+
+    /**
+     * Encodes a wrapped message with the configured codec and emits it on a channel
+     * @param channel The channel object
+     * @param msg The wrapped message
+     * @param dest The destination of the message
+     */
+    protected emitChannelMessage<T extends RequestType>(channel: Channel<T>, msg: MessageMeta, dest: DestType): void {
+        if (channel.mode === "topic" && (channel as TopicChannel<JSONValue>).local === true) {
+            return;
+        }
+        this.tapMessage(channel, msg, "out");
+        const wireMessage = channel.mode === "topic" && msg.messageType === "topic" ? this.compressTopicMessage(channel as TopicChannel<JSONValue>, msg as WithMeta<TopicMessage>) : msg;
+        this.emitRawEvent(this.getChannelName(channel), this.options.codec.encode(wireMessage), dest);
+    }
+
+    /**
+     * Passes a message to all message taps
+     * @param channel The channel the message was sent or received on
+     * @param msg The wrapped message
+     * @param direction Whether the message was received or sent
+     */
+    protected tapMessage<T extends RequestType>(channel: Channel<T>, msg: MessageMeta, direction: "in" | "out"): void {
+        this.messageTaps.forEach(tap => tap(channel, msg, direction));
+    }
+
+    /**
+     * Listens to every message sent or received on the initialized channels, e.g. for recording traffic
+     * @param tap The listener
+     * @returns The unsubscriber function
+     */
+    tap(tap: MessageTap): Unsubscriber {
+        this.messageTaps.add(tap);
+        return () => {
+            this.messageTaps.delete(tap);
+        };
+    }
+
+    /**
+     * Decodes a raw channel message with the configured codec
+     * @param data The raw data received
+     * @returns The decoded message, or undefined if it could not be decoded
+     */
+    protected decodeChannelMessage(data: any): MessageMeta | undefined {
+        try {
+            return this.options.codec.decode(data);
+        } catch (e) {
+            console.warn(`Could not decode message with codec ${this.options.codec.name}:`, e);
+            return undefined;
+        }
+    }
+
     /**
      * Broadcasts a diff to the specified topic channel
      * @param channel The channel object
@@ -264,7 +615,150 @@ export abstract class BaseClient<V = void> {
      * @param source The source of the message
      */
     protected sendDiffTopic<T extends JSONValue>(channel: TopicChannel<T>, diff: DiffResult<T, T>, source?: string): void {
-        this.emitRawEvent(this.getChannelName(channel), this.wrapMessage(diff as JSONObject, "topic", source), "*");
+        this.sendTopicMessage(channel, this.wrapTopicMessage(channel, diff, source));
+    }
+
+    /**
+     * Broadcasts a wrapped topic message to the specified topic channel
+     * @param channel The channel object
+     * @param msg The wrapped topic message
+     */
+    protected sendTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>): void {
+        this.assignSequence(channel, msg);
+        // Compressed by emitChannelMessage if the channel has compression enabled
+        this.emitChannelMessage(channel, msg, "*");
+    }
+
+    /**
+     * Gives a topic message sent by this client the next sequence number of its channel
+     * @param channel The channel object
+     * @param msg The wrapped topic message
+     */
+    private assignSequence<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>): void {
+        const eventName = this.getChannelName(channel);
+        const number = (this.sentSequences.get(eventName) ?? 0) + 1;
+        this.sentSequences.set(eventName, number);
+        msg.seq = { node: this._id, number };
+    }
+
+    /**
+     * Checks the sequence number of a received topic message, requesting the full topic if messages were missed
+     * @param channel The channel object that the message was received on
+     * @param msg The message
+     * @returns Whether the message should be applied, i.e. it is not older than a message already received from the same node
+     */
+    protected acceptSequence<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>): boolean {
+        if (msg.seq === undefined || msg.seq.node === this._id) {
+            return true;
+        }
+        const eventName = this.getChannelName(channel);
+        if (!this.receivedSequences.has(eventName)) {
+            this.receivedSequences.set(eventName, new Map());
+        }
+        const sequences = this.receivedSequences.get(eventName)!;
+        const last = sequences.get(msg.seq.node);
+        if (last !== undefined && msg.seq.number <= last) {
+            this.options.logTopics && console.log(`${this.id}: Dropping stale message ${msg.seq.number} from ${msg.seq.node} on topic ${channel.name}, already received ${last}`);
+            return false;
+        }
+        sequences.set(msg.seq.node, msg.seq.number);
+        if (last !== undefined && msg.seq.number > last + 1) {
+            // Apply the message anyway, the full topic fills in what was missed
+            const event: ResyncEvent = { channel, node: msg.seq.node, expected: last + 1, received: msg.seq.number };
+            this.sendRequestFullTopic(channel);
+            this.resyncListeners.forEach(listener => listener(event));
+        }
+        return true;
+    }
+
+    /**
+     * Subscribes to resync events, emitted when missed topic messages are detected and the full topic is requested
+     * @param listener The listener function
+     * @returns The unsubscriber function
+     */
+    subResync(listener: (event: ResyncEvent) => void): Unsubscriber {
+        this.resyncListeners.add(listener);
+        return () => {
+            this.resyncListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Converts a received topic message made in another schema version into the version of the channel, using the migrations of the channel
+     * @param channel The channel object that the message was received on
+     * @param msg The message
+     * @param sender Optional sender of the message (only used on {@link TopicServer} for rejecting messages it cannot migrate)
+     * @returns The message in the version of the channel, or undefined if it could not be migrated
+     */
+    protected migrateTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, sender?: V): WithMeta<TopicMessage> | undefined {
+        const from = msg.version ?? 1;
+        const to = channel.version ?? 1;
+        if (from === to) {
+            return msg;
+        }
+        try {
+            const current = this.topicMap.get(this.getChannelName(channel)) ?? {};
+            const { modified, deleted, arrays } = migrateDiff(current, msg as unknown as DiffResult<JSONValue, JSONValue>, from, to, channel.migrations ?? {}, channel.arrayDiff && channel.convergence === undefined);
+            // The clock timestamps of full topics refer to properties of the other version
+            return { ...msg, modified, deleted, arrays, clocks: undefined, horizon: undefined, version: to };
+        } catch (e) {
+            console.warn(`Could not migrate topic message on ${channel.name} from version ${from} to ${to}, ignoring it:`, e);
+            return undefined;
+        }
+    }
+
+    /**
+     * Whether to diff the arrays of a topic element by element when publishing, see {@link TopicChannelOptions.arrayDiff}
+     * @param channel The channel object
+     * @returns Whether the channel diffs arrays, and the peers receiving the diffs support it
+     */
+    protected diffsArrays<T extends JSONValue>(channel: TopicChannel<T>): boolean {
+        return channel.arrayDiff === true && channel.convergence === undefined;
+    }
+
+    /**
+     * Compresses a topic message if the channel has compression enabled and the diff is above the threshold
+     * @param channel The channel object
+     * @param msg The wrapped topic message
+     * @returns The compressed message, or the original message if it should not be compressed
+     */
+    protected compressTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>): MessageMeta {
+        if (channel.compression === undefined) {
+            return msg;
+        }
+        const { modified, deleted, arrays, clocks, horizon, ...meta } = msg;
+        const serialized = JSON.stringify({ modified, deleted, arrays, clocks, horizon });
+        if (serialized.length < (channel.compression.threshold ?? defaultCompressionThreshold)) {
+            return msg;
+        }
+        const compression = channel.compression.algorithm ?? "deflate";
+        const compressor = this.options.compressors.find(compressor => compressor.algorithm === compression);
+        if (compressor === undefined) {
+            console.warn(`No ${compression} compressor in the options, sending topic message on ${channel.name} uncompressed`);
+            return msg;
+        }
+        const compressed: WithMeta<CompressedTopicMessage> = { ...meta, compression, payload: compressor.compress(serialized) };
+        return compressed;
+    }
+
+    /**
+     * Decompresses a compressed topic message back into the topic message it was created from
+     * @param msg The compressed message
+     * @returns The topic message, or undefined if it could not be decompressed
+     */
+    protected decompressTopicMessage(msg: WithMeta<CompressedTopicMessage>): WithMeta<TopicMessage> | undefined {
+        const { compression, payload, ...meta } = msg;
+        const compressor = this.options.compressors.find(compressor => compressor.algorithm === compression);
+        if (compressor === undefined) {
+            console.warn(`Could not decompress topic message with ${compression}, no such compressor in the options`);
+            return undefined;
+        }
+        try {
+            return { ...meta, ...JSON.parse(compressor.decompress(payload)) };
+        } catch (e) {
+            console.warn(`Could not decompress topic message with ${compression}:`, e);
+            return undefined;
+        }
     }
 
     /**
@@ -280,10 +774,7 @@ export abstract class BaseClient<V = void> {
             console.warn(`Cannot send full topic for channel ${channel.name} - no full topic available`);
             return;
         } else {
-            this.sendDiffTopic(channel, {
-                // @ts-ignore - this is a valid topic, but the type system doesn't know that
-                modified: fullTopic
-            }, source);
+            this.sendTopicMessage(channel, this.wrapFullTopicMessage(channel, source));
         }
     }
 
@@ -293,7 +784,7 @@ export abstract class BaseClient<V = void> {
      * @param source The source of the message (optional and defaults to the current client, only used in {@link TopicServer})
      */
     protected sendRequestFullTopic<T extends JSONValue>(channel: TopicChannel<T>, source?: string): void {
-        this.emitRawEvent(this.getChannelName(channel), this.wrapMessage({}, "requestFullTopic", source), "*");
+        this.emitChannelMessage(channel, this.wrapMessage({}, "requestFullTopic", source), "*");
     }
 
     /**
@@ -304,7 +795,7 @@ export abstract class BaseClient<V = void> {
      * @param dest The destination of the message
      */
     protected sendServiceResponseMessage<T extends RequestType=void, U extends ServiceResponseType=void>(channel: ServiceChannel<T, U>, id: string, result: ServiceResponseType, dest: string) {
-        this.emitRawEvent(this.getChannelName(channel), this.wrapMessage({
+        this.emitChannelMessage(channel, this.wrapMessage({
             serviceId: id,
             dest,
             // If reponse data is undefined, don't send it (for services that don't return anything)
@@ -320,7 +811,7 @@ export abstract class BaseClient<V = void> {
      * @param dest The destination of the message
      */
     protected sendServiceErrorMessage<T extends RequestType=void, U extends ServiceResponseType=void>(channel: ServiceChannel<T, U>, id: string, errorMesssage: string, dest: string) {
-        this.emitRawEvent(this.getChannelName(channel), this.wrapMessage({
+        this.emitChannelMessage(channel, this.wrapMessage({
             serviceId: id,
             dest,
             errorMessage: errorMesssage
@@ -332,9 +823,10 @@ export abstract class BaseClient<V = void> {
      * @param channel The channel object
      * @param handler The handler function to call when the topic changes
      * @param initialUpdate Whether to immediately call the handler with the current topic value when subscribing
+     * @param options Subscription options
      * @returns The unsubscriber function
      */
-    sub<T extends JSONValue>(channel: TopicChannel<T>, handler: Subscriber<T>, initialUpdate: boolean = true): Unsubscriber {
+    sub<T extends JSONValue>(channel: TopicChannel<T>, handler: Subscriber<T>, initialUpdate: boolean = true, options: SubscribeOptions = {}): Unsubscriber {
         // console.log(`Client ${this.id} subscribing to channel ${channel.name}`);
         if (channel.mode !== "topic") throw new Error("Channel is not a topic channel");
         this.initTopicChannel<T>(channel);
@@ -342,30 +834,96 @@ export abstract class BaseClient<V = void> {
         // this.topicHandlerMap.get(eventName)?.push(handler as (topic: JSONValue) => void);
         // It is now a set, so we don't need to check if it exists
         this.topicHandlerMap.get(eventName)!.add(handler as (topic: JSONValue) => void);
+        if (options.patch) {
+            this.patchSubscribers.add(handler as Subscriber<JSONValue>);
+        }
         const unsubscriber = this.createUnsubscriber(eventName, handler);
         // console.log(initialUpdate, this.hasValidTopic(channel));
         if (initialUpdate && this.hasValidTopic(channel)) {
             // Manually call the handler with the current topic value
             const history = this.lastValidDiffMap.get(eventName);
             if (history === undefined) throw new Error("History is undefined");
+            const value = this.getTopicSync(channel);
+            // The subscriber has not seen any value before
+            const meta = options.patch ? { ...history, patch: [{ op: "replace", path: "", value }] } : history;
             // @ts-ignore - this is a valid topic, but the type system doesn't know that
-            handler(this.getTopicSync(channel), unsubscriber, history);
+            handler(value, unsubscriber, meta);
         }
         return unsubscriber;
     }
 
+    /**
+     * Subscribes to the value at a path within a topic channel, skipping updates that do not touch it
+     * The whole topic is still received, since it is validated against the schema of the channel
+     * @param channel The channel object
+     * @param path The path of property names, e.g. ["robots", "r1", "pose"]
+     * @param handler The handler function, called with the value at the path (undefined if it does not exist) and the diff narrowed down to it
+     * @param initialUpdate Whether to immediately call the handler with the current value at the path when subscribing
+     * @returns The unsubscriber function
+     */
+    subPath<T extends JSONValue, P extends string[]>(channel: TopicChannel<T>, path: readonly [...P], handler: PathSubscriber<PathValue<T, P>>, initialUpdate: boolean = true): Unsubscriber {
+        // The first update always reaches the handler, since it has not seen the value yet
+        let delivered = false;
+        return this.sub(channel, (value, unsubscribe, meta) => {
+            if (delivered && !diffTouchesPath(meta.diff, path)) {
+                return;
+            }
+            delivered = true;
+            const subValue = getPath(value, path);
+            handler(subValue as PathValue<T, P>, unsubscribe, { ...meta, diff: scopeDiff(meta.diff, path, subValue) });
+        }, initialUpdate);
+    }
+
+    /**
+     * Computes a derived topic on this client, publishing its value whenever one of its sources changes
+     * The value is only computed once every source has a valid value, and only published if it matches the schema of the derived topic
+     * @param channel The derived topic channel
+     * @returns The unsubscriber function, which stops computing the topic
+     */
+    derive<T extends JSONValue, S extends TopicChannel<any>[]>(channel: DerivedTopicChannel<T, S>): Unsubscriber {
+        const recompute = () => {
+            if (!channel.sources.every(source => this.hasValidTopic(source))) {
+                return;
+            }
+            let value: T;
+            try {
+                value = channel.compute(...channel.sources.map(source => this.getTopicSync(source)) as TopicChannelValues<S>);
+            } catch (e) {
+                console.warn(`Could not compute derived topic ${channel.name}:`, e);
+                return;
+            }
+            const parse = channel.schema.safeParse(value);
+            if (!parse.success) {
+                console.warn(`Computed value of derived topic ${channel.name} does not match its schema, not publishing it:`, parse.error);
+                return;
+            }
+            this.pub(channel, value as RecursivePartial<T>);
+        };
+        const unsubscribers = channel.sources.map(source => this.sub(source, recompute, false));
+        recompute();
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }
+
     /**
      * Subscribes to the changes of a topic channel once (convenience function)
      * @param channel The channel object
      * @param handler The handler function to call when the topic changes
      * @param initialUpdate Whether to immediately call the handler with the current topic value when subscribing
+     * @param options Subscription options
      * @returns The unsubscriber function
      */
-    subOnce<T extends JSONValue>(channel: TopicChannel<T>, handler: Subscriber<T>, initialUpdate: boolean = true): Unsubscriber {
+    subOnce<T extends JSONValue>(channel: TopicChannel<T>, handler: Subscriber<T>, initialUpdate: boolean = true, options: SubscribeOptions = {}): Unsubscriber {
         return this.sub(channel, (topic, unsubscriber, history) => {
             unsubscriber();
             handler(topic, unsubscriber, history);
-        }, initialUpdate);
+        }, initialUpdate, options);
+    }
+
+    /**
+     * Creates the last-writer-wins state of a topic channel, which only collects deletions once it received a full topic
+     */
+    protected createLWWTopicState(): LWWTopicState {
+        return new LWWTopicState();
     }
 
     /**
@@ -377,25 +935,56 @@ export abstract class BaseClient<V = void> {
         if (!this.channelSchemaMap.has(eventName)) { // Initialize channel if not already initialized
             this.channelSchemaMap.set(eventName, channel.schema);
             this.topicMap.set(eventName, {});
+            if (channel.convergence === "lww") {
+                this.lwwStates.set(eventName, this.createLWWTopicState());
+            }
+            if (channel.history !== undefined) {
+                this.topicHistoryMap.set(eventName, new TopicHistory(channel.history));
+            }
             if (this.topicHandlerMap.has(eventName) === false) {
                 // this.topicHandlerMap.set(eventName, []);
                 this.topicHandlerMap.set(eventName, new Set());
             }
+            if (channel.local === true) {
+                // Local topics are never sent or received, so there is nothing to listen to or request
+                this.initializedTopicChannels.add(channel);
+                return;
+            }
             // Add raw event listener
-            this.onRawEvent(eventName, (msg: MessageMeta, sender?: V) => {
+            this.onRawEvent(eventName, (data: any, sender?: V) => {
+                const msg = this.decodeChannelMessage(data);
                 // Validate the message - in the sense that it is a valid message type, but doesn't guarantee that the topic is valid
-                const validMessage = metaMessageSchema.safeParse(msg).success;
+                const validMessage = msg !== undefined && metaMessageSchema.safeParse(msg).success;
                 if (!validMessage) {
                     console.warn("Invalid message received: ", msg);
                     return;
                 }
                 metaMessageSchema.parse(msg);
                 if (msg.messageType === "requestFullTopic" && requestFullTopicMessageSchema.safeParse(msg).success) {
+                    this.tapMessage(channel, msg, "in");
                     this.onReceiveRequestFullTopicMessage<T>(channel, msg as WithMeta<RequestFullTopicMessage>, sender);
                     return;
                 }
-                if (msg.messageType === "topic" && topicMessageSchema.safeParse(msg).success) {
-                    this.onReceiveTopicMessage<T>(channel, msg as WithMeta<TopicMessage>, sender);
+                if (msg.messageType === "topic" && compressedTopicMessageSchema.safeParse(msg).success) {
+                    const decompressed = this.decompressTopicMessage(msg as WithMeta<CompressedTopicMessage>);
+                    if (decompressed !== undefined && topicMessageSchema.safeParse(decompressed).success) {
+                        if (this.acceptSequence(channel, decompressed)) {
+                            this.tapMessage(channel, decompressed, "in");
+                            const migrated = this.migrateTopicMessage(channel, decompressed, sender);
+                            if (migrated !== undefined) {
+                                this.onReceiveTopicMessage<T>(channel, migrated, sender);
+                            }
+                        }
+                        return;
+                    }
+                } else if (msg.messageType === "topic" && topicMessageSchema.safeParse(msg).success) {
+                    if (this.acceptSequence(channel, msg as WithMeta<TopicMessage>)) {
+                        this.tapMessage(channel, msg, "in");
+                        const migrated = this.migrateTopicMessage(channel, msg as WithMeta<TopicMessage>, sender);
+                        if (migrated !== undefined) {
+                            this.onReceiveTopicMessage<T>(channel, migrated, sender);
+                        }
+                    }
                     return;
                 }
                 console.warn(`Invalid message received for topic channel ${channel.name}:`, msg);
@@ -432,19 +1021,22 @@ export abstract class BaseClient<V = void> {
             this.channelSchemaMap.set(eventName, channel.schema);
             this.channelResponseSchemaMap.set(eventName, channel.responseSchema);
             // Add raw event listener
-            this.onRawEvent(eventName, (msg: MessageMeta, sender?: V) => {
+            this.onRawEvent(eventName, (data: any, sender?: V) => {
+                const msg = this.decodeChannelMessage(data);
                 // console.log("Received service message", msg, sender);
-                const validMessage = metaMessageSchema.safeParse(msg).success;
+                const validMessage = msg !== undefined && metaMessageSchema.safeParse(msg).success;
                 if (!validMessage) {
                     console.warn("Invalid message received: ", msg);
                     return;
                 }
                 metaMessageSchema.parse(msg);
                 if (msg.messageType === "serviceResponse" && serviceResponseMessageSchema.safeParse(msg).success) {
+                    this.tapMessage(channel, msg, "in");
                     this.onReceiveServiceResponseMessage<T, U>(channel, msg as WithMeta<ServiceResponseMessage>, sender);
                     return;
                 }
                 if (msg.messageType === "service" && serviceMessageSchema.safeParse(msg).success) {
+                    this.tapMessage(channel, msg, "in");
                     this.onReceiveServiceMessage<T, U>(channel, msg as WithMeta<ServiceMessage>, sender);
                     return;
                 }
@@ -563,40 +1155,64 @@ export abstract class BaseClient<V = void> {
             throw new Error(`Topic for channel ${channel.name} not initialized`);
         };
         // Cast the message to the correct type
-        const diffResult = msg as unknown as DiffResult<T, T>;
+        let diffResult = msg as unknown as DiffResult<T, T>;
+        const lwwState = this.lwwStates.get(eventName);
+        if (lwwState !== undefined) {
+            if (msg.hlc === undefined) {
+                console.warn(`Topic message without clock timestamp received for last-writer-wins channel ${channel.name}, ignoring it:`, msg);
+                return;
+            }
+            this.clock.receive(msg.hlc);
+            const resolved = lwwState.resolve(currentTopic, diffResult as DiffResult<JSONValue, JSONValue>, msg.hlc, msg.clocks, msg.horizon) as DiffResult<T, T>;
+            const serverMeta = this.topicMap.get(this.getChannelName(serverMetaChannel)) as Partial<ServerMeta> | undefined;
+            lwwState.collectGarbage(Object.keys(serverMeta?.clients ?? {}));
+            // Own updates always win, and are already applied to the topic by pub
+            if (msg.hlc.node !== this._id) {
+                diffResult = resolved;
+            }
+        }
         // Update the topic
         // const oldTopic = cloneDeep(currentTopic);
-        const newTopic = mergeDiff(currentTopic, diffResult);
+        let arraysMismatched = false;
+        const newTopic = mergeDiff(currentTopic, diffResult, () => arraysMismatched = true);
+        if (arraysMismatched) {
+            // The array operations were made on other arrays than ours, so the rest of them was dropped and the full topic has to fill it in
+            this.options.logTopics && console.log(`${this.id}: Array operations from ${msg.source} do not fit topic ${channel.name}, requesting the full topic`);
+            this.sendRequestFullTopic(channel);
+        }
         // See if the new topic is valid according to the topic schema
         const previouslyValid = this.topicsValid.get(eventName) ?? false;
         const parse = channel.schema.safeParse(newTopic);
         const valid = parse.success;
         if (!valid) {
             this.options.logTopicValidationErrors && console.log(`${this.id}: ❌ Topic ${channel.name} is invalid:`, parse.error);
-            this.topicsInvalidReasons.set(eventName, parse.error);
         }
         // Throw an error indicating what the topic is invalid
         // Update the topic validity and value, and call the handler if it is valid and if there are any changes
-        if (diffResult.modified !== undefined || diffResult.deleted !== undefined) {
+        if (diffResult.modified !== undefined || diffResult.deleted !== undefined || diffResult.arrays !== undefined) {
+            this.updateValidity(eventName, parse.success ? undefined : { error: parse.error, source: msg.source }, msg.source);
             // this.options.logTopicValidationErrors && console.log("Previously valid: ", previouslyValid);
             if (previouslyValid !== true) {
                 if (valid) {
                     this.options.logTopicValidationErrors && console.log(`${this.id}: 🎊 Topic ${channel.name} is now valid, applying changes`);
                     this.topicsValid.set(eventName, true);
                     this.topicMap.set(eventName, newTopic);
-                    this.updateTopic(eventName, newTopic, diffResult, msg);
+                    this.recordHistory(eventName, diffResult, msg);
+                    this.updateTopic(eventName, newTopic, undefined, diffResult, msg);
                     // Instead, iterate over the handlers and their index as pairs, so we can create an unsubscribe function that removes the handler at the correct index
                 } else {
                     this.options.logTopicValidationErrors && console.log(`${this.id}: 🤔 Topic ${channel.name} is still invalid, but applying changes`);
                     // Still update the topic value, but don't call the handler
                     this.topicMap.set(eventName, newTopic);
+                    this.recordHistory(eventName, diffResult, msg);
                 }
             } else {
                 if (valid) {
                     this.options.logTopicValidationErrors && console.log(`${this.id}: 😀 Topic ${channel.name} is still valid, applying changes`);
                     // If previously valid and now is still valid, apply the changes
                     this.topicMap.set(eventName, newTopic);
-                    this.updateTopic(eventName, newTopic, diffResult, msg);
+                    this.recordHistory(eventName, diffResult, msg);
+                    this.updateTopic(eventName, newTopic, currentTopic, diffResult, msg);
                 } else {
                     this.options.logTopicValidationErrors && console.log(`${this.id}: 🚨 Topic ${channel.name} is invalid after changes, not applying changes`);
                     // If previously valid and now is invalid, don't apply the changes
@@ -614,6 +1230,41 @@ export abstract class BaseClient<V = void> {
         }
     }
 
+    /**
+     * Records whether a diff received on a topic passed its schema, notifying the validity listeners if that changed
+     * @param eventName The channel name
+     * @param validationError Why the diff failed the schema, or undefined if it passed or the topic was reset
+     * @param source The source of the diff, or the own ID for a reset
+     */
+    private updateValidity(eventName: string, validationError: TopicValidationError | undefined, source: string) {
+        const previouslyValid = !this.topicsInvalidReasons.has(eventName);
+        if (validationError !== undefined) {
+            this.topicsInvalidReasons.set(eventName, validationError.error);
+            this.topicsInvalidSources.set(eventName, validationError.source);
+        } else {
+            this.topicsInvalidReasons.delete(eventName);
+            this.topicsInvalidSources.delete(eventName);
+        }
+        if (previouslyValid !== (validationError === undefined)) {
+            const validity: TopicValidity = { valid: validationError === undefined, source, error: validationError?.error };
+            this.validityListeners.get(eventName)?.forEach(listener => listener(validity));
+        }
+    }
+
+    /**
+     * Records a diff applied to a topic in its history, if the channel has history enabled
+     * @param eventName The channel name
+     * @param diffResult The applied diff
+     * @param msg The message that carried the diff
+     */
+    private recordHistory<T extends JSONValue>(eventName: string, diffResult: DiffResult<T, T>, msg: WithMeta<TopicMessage>) {
+        this.topicHistoryMap.get(eventName)?.record({
+            timestamp: msg.timestamp,
+            diff: { modified: diffResult.modified, deleted: diffResult.deleted, arrays: diffResult.arrays } as DiffResult<JSONValue, JSONValue>,
+            source: msg.source
+        });
+    }
+
     private createUnsubscriber<T extends JSONValue>(eventName: string, handler: Subscriber<T>) {
         return () => {
             // Remove this handler from the list of handlers
@@ -626,17 +1277,122 @@ export abstract class BaseClient<V = void> {
                 // It is now a set, so we can just delete the handler
                 handlers.delete(handler as Subscriber<JSONValue>);
             }
+            this.patchSubscribers.delete(handler as Subscriber<JSONValue>);
         };
     }
 
-    private updateTopic<T extends JSONValue>(eventName: string, newTopic: any, diffResult: DiffResult<T, T>, msg: WithMeta<{ modified?: string | number | boolean | {} | unknown[] | Record<string, unknown> | null | undefined; deleted?: string | number | boolean | {} | unknown[] | Record<string, unknown> | null | undefined; }>) {
+    private updateTopic<T extends JSONValue>(eventName: string, newTopic: any, previousTopic: JSONValue | undefined, diffResult: DiffResult<T, T>, msg: WithMeta<{ modified?: string | number | boolean | {} | unknown[] | Record<string, unknown> | null | undefined; deleted?: string | number | boolean | {} | unknown[] | Record<string, unknown> | null | undefined; }>) {
         this.lastValidDiffMap.set(eventName, {diff: diffResult, source: msg.source})
+        // Converted once for all patch subscribers; subscribers never saw an invalid previous value, so they get the whole value instead
+        let patch: JSONPatchOperation[] | undefined;
+        const getPatch = () => patch = patch ?? (previousTopic === undefined ? [{ op: "replace", path: "", value: newTopic }] : diffToPatch(previousTopic, diffResult as DiffResult<JSONValue, JSONValue>));
         this.topicHandlerMap.get(eventName)?.forEach(handler => {
             const unsubscribe = this.createUnsubscriber(eventName, handler);
-            handler(newTopic, unsubscribe, { diff: diffResult, source: msg.source });
+            const meta = this.patchSubscribers.has(handler) ? { diff: diffResult, source: msg.source, patch: getPatch() } : { diff: diffResult, source: msg.source };
+            const notify = () => handler(newTopic, unsubscribe, meta);
+            if (this.pendingNotifications !== undefined) {
+                // Within a transaction, subscribers are only called once all of its topics are updated
+                this.pendingNotifications.push(notify);
+            } else {
+                notify();
+            }
+        });
+    }
+
+    /**
+     * Decodes a received transaction and passes the parts for initialized topic channels on, dropping the transaction if any part is not a valid topic message
+     * @param data The raw data received
+     * @param sender Optional sender of the transaction (only used on {@link TopicServer} for broadcasting / forwarding messages)
+     */
+    private onRawTransaction(data: any, sender?: V): void {
+        const decoded = this.decodeChannelMessage(data);
+        const parse = transactionMessageSchema.safeParse(decoded);
+        if (!parse.success) {
+            console.warn("Invalid transaction received: ", decoded);
+            return;
+        }
+        const parts: TransactionPart[] = [];
+        for (const part of parse.data.parts) {
+            const channel = [...this.initializedTopicChannels].find(channel => channel.local !== true && this.getChannelName(channel) === part.event);
+            if (channel === undefined) {
+                continue; // Not used by this client
+            }
+            const msg = compressedTopicMessageSchema.safeParse(part.msg).success ? this.decompressTopicMessage(part.msg as WithMeta<CompressedTopicMessage>) : part.msg as WithMeta<TopicMessage>;
+            if (msg === undefined || !metaMessageSchema.safeParse(msg).success || msg.messageType !== "topic" || !topicMessageSchema.safeParse(msg).success) {
+                console.warn(`Invalid message received in transaction for topic channel ${channel.name}, dropping the transaction:`, part.msg);
+                return;
+            }
+            parts.push({ channel, msg });
+        }
+        const accepted = parts.filter(({ channel, msg }) => this.acceptSequence(channel, msg));
+        accepted.forEach(({ channel, msg }) => this.tapMessage(channel, msg, "in"));
+        const migrated = accepted.map(({ channel, msg }) => ({ channel, msg: this.migrateTopicMessage(channel, msg) }));
+        if (migrated.some(({ msg }) => msg === undefined)) {
+            return; // Applying only part of the transaction would break its atomicity
+        }
+        if (migrated.length > 0) {
+            this.onReceiveTransaction(migrated as TransactionPart[], sender);
+        }
+    }
+
+    /**
+     * Handler for receiving transactions, applying either all of their parts or none of them
+     * @param parts The parts of the transaction
+     * @param sender Optional sender of the transaction (only used on {@link TopicServer} for broadcasting / forwarding messages)
+     * @returns Whether the transaction was applied
+     */
+    protected onReceiveTransaction(parts: TransactionPart[], sender?: V): boolean {
+        const invalid = this.findInvalidatingPart(parts);
+        if (invalid !== undefined) {
+            console.warn(`Transaction would make topic ${invalid.channel.name} invalid, not applying any of its changes`);
+            return false;
+        }
+        this.batchNotifications(() => {
+            parts.forEach(part => this.applyTransactionPart(part, sender));
+        });
+        return true;
+    }
+
+    /**
+     * Applies a single part of a transaction to its topic
+     * @param part The part of the transaction
+     * @param sender Optional sender of the transaction (only used on {@link TopicServer} for broadcasting / forwarding messages)
+     */
+    protected applyTransactionPart(part: TransactionPart, sender?: V): void {
+        this.onReceiveTopicMessage(part.channel, part.msg, sender);
+    }
+
+    /**
+     * Finds the part of a transaction that would make a valid topic invalid
+     * @param parts The parts of the transaction
+     * @returns The first such part, or undefined if the transaction can be applied
+     */
+    private findInvalidatingPart(parts: TransactionPart[]): TransactionPart | undefined {
+        return parts.find(({ channel, msg }) => {
+            const newTopic = mergeDiff(this.topicMap.get(this.getChannelName(channel)), msg as unknown as DiffResult<JSONValue, JSONValue>);
+            return this.hasValidTopic(channel) && !channel.schema.safeParse(newTopic).success;
         });
     }
 
+    /**
+     * Holds back the subscriber calls caused by applying updates until all of them are applied
+     * @param apply Function applying the updates
+     */
+    private batchNotifications(apply: () => void): void {
+        if (this.pendingNotifications !== undefined) {
+            apply(); // Already batching
+            return;
+        }
+        this.pendingNotifications = [];
+        try {
+            apply();
+        } finally {
+            const notifications = this.pendingNotifications;
+            this.pendingNotifications = undefined;
+            notifications.forEach(notify => notify());
+        }
+    }
+
     /**
      * Handle request for full topic - send full topic if channel is topic, and we have a valid topic
      * Common behaviour: If you receive a request for full topic, you should send the full topic if you have it
@@ -652,6 +1408,9 @@ export abstract class BaseClient<V = void> {
     protected onReceiveRequestFullTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<RequestFullTopicMessage>, sender?: V) {
         if (this.hasValidTopic(channel)) {
             this.sendFullTopic(channel);
+        } else if (isEqual(this.topicMap.get(this.getChannelName(channel)), {})) {
+            // Nothing known yet, e.g. right after a reset, and an empty full topic would call the subscribers of others without changing anything
+            return;
         } else {
             console.warn(`Invalid topic for channel ${channel.name}, sending anyway:`, this.topicMap.get(this.getChannelName(channel)));
             this.sendFullTopic(channel);
@@ -700,23 +1459,60 @@ export abstract class BaseClient<V = void> {
         if (currentTopic === undefined) {
             throw new Error("Channel not found");
         }
-        const diffResult = diff(currentTopic as T, data as JSONValue);
+        const diffResult = diff(currentTopic as T, data as JSONValue, { arrays: this.diffsArrays(channel) });
         // Disallow deletions of topic properties
         if (!publishDeletes) {
             diffResult.deleted = undefined;
         }
         // Only emit if there are changes
-        if (diffResult.modified !== undefined || diffResult.deleted !== undefined) {
-            // Apply the changes to the topic
-            const newTopic = mergeDiff(currentTopic, diffResult);
-            this.topicMap.set(eventName, newTopic);
-            this.sendDiffTopic(channel as TopicChannel<T>, diffResult as DiffResult<T, T>, source); 
-            if (updateSelf) {
-                // this.topicHandlerMap.get(eventName)?.forEach(handler => handler(newTopic));
-                // Send yourself the message, so that it runs through the same logic as if it was received from another client
-                this.onReceiveTopicMessage(channel as TopicChannel<T>, this.wrapMessage(diffResult as JSONObject, "topic", source ?? this._id) as WithMeta<TopicMessage>)
-            }
+        if (diffResult.modified !== undefined || diffResult.deleted !== undefined || diffResult.arrays !== undefined) {
+            this.publishOwnUpdate(channel, currentTopic, diffResult as DiffResult<T, T>, updateSelf, source);
+        }
+    }
+
+    /**
+     * Publishes a new value to a topic channel like {@link BaseClient.pub}, but the server deletes the published properties again when this client disconnects, e.g. for presence
+     * Deletions are never published, so only properties present in the data are contributed
+     * @param channel The channel to publish to
+     * @param data The properties to contribute
+     * @param updateSelf Whether to call the client's own topic subscribers
+     */
+    pubEphemeral<T extends JSONValue>(channel: TopicChannel<T>, data: RecursivePartial<T>, updateSelf: boolean = true): void {
+        if (channel.mode !== "topic") {
+            throw new Error("Channel is not a topic channel");
+        }
+        if (data === undefined) {
+            throw new Error("Data is undefined, which is equivalent to deleting the topic. Invalid operation.");
+        }
+        this.initTopicChannel(channel);
+        const currentTopic = this.topicMap.get(this.getChannelName(channel));
+        if (currentTopic === undefined) {
+            throw new Error("Channel not found");
+        }
+        const diffResult = diff(currentTopic as T, cloneDeep(data) as JSONValue, { arrays: this.diffsArrays(channel) });
+        diffResult.deleted = undefined;
+        if (diffResult.modified !== undefined || diffResult.arrays !== undefined) {
+            this.publishOwnUpdate(channel, currentTopic, diffResult as DiffResult<T, T>, updateSelf, undefined, true);
+        }
+    }
+
+    /**
+     * Publishes JSON Patch (RFC 6902) operations to a topic channel, by applying them to the current value and publishing the result
+     * @param channel The channel to publish to
+     * @param operations The JSON Patch operations
+     * @param updateSelf Whether to call the client's own topic subscribers
+     * @throws Error if the operations cannot be applied to the current value, e.g. because a test operation fails
+     */
+    pubPatch<T extends JSONValue>(channel: TopicChannel<T>, operations: JSONPatchOperation[], updateSelf: boolean = true): void {
+        if (channel.mode !== "topic") {
+            throw new Error("Channel is not a topic channel");
+        }
+        this.initTopicChannel(channel);
+        const patched = applyPatch(this._getUnsafeTopic(channel) as JSONValue, operations);
+        if (patched === undefined) {
+            throw new Error("Data is undefined, which is equivalent to deleting the topic. Invalid operation.");
         }
+        this.pub(channel, patched as RecursivePartial<T>, updateSelf);
     }
 
     /**
@@ -740,14 +1536,211 @@ export abstract class BaseClient<V = void> {
         if (currentTopic === undefined) {
             throw new Error("Channel not found");
         }
+        if (diff.arrays !== undefined && !this.diffsArrays(channel)) {
+            diff = inlineArrayDiff(diff, mergeDiff(currentTopic, diff));
+        }
+        this.publishOwnUpdate(channel, currentTopic, diff, updateSelf, source);
+    }
+
+    /**
+     * Applies an update published by this client to its own topic, sends it, and runs it through the same logic as received messages if updating self
+     * @param channel The channel to publish to
+     * @param currentTopic The topic value before the update
+     * @param diff The diff to publish
+     * @param updateSelf Whether to call the client's own topic subscribers
+     * @param source Optional source of the update (Only used on {@link TopicServer} for broadcasting / forwarding messages)
+     * @param ephemeral Whether the server should delete the update when this client disconnects
+     * @param ack Whether the server should acknowledge the update, which is then sent right away even if the channel is throttled
+     * @returns The wrapped message of the update
+     */
+    protected publishOwnUpdate<T extends JSONValue>(channel: TopicChannel<T>, currentTopic: JSONValue, diff: DiffResult<T, T>, updateSelf: boolean, source?: string, ephemeral: boolean = false, ack: boolean = false): WithMeta<TopicMessage> {
         // Apply the changes to the topic
         const newTopic = mergeDiff(currentTopic, diff);
-        this.topicMap.set(eventName, newTopic);
-        this.sendDiffTopic(channel as TopicChannel<T>, diff as DiffResult<T, T>, source); 
+        this.topicMap.set(this.getChannelName(channel), newTopic);
+        const msg = this.wrapTopicMessage(channel, diff, source);
+        if (ephemeral) {
+            msg.ephemeral = true;
+        }
+        if (ack) {
+            msg.ack = true;
+            // Held back updates go first, so the acknowledged update is not coalesced with them
+            this.flushTopic(channel);
+            this.sendTopicMessage(channel, msg);
+        } else if (channel.throttle !== undefined) {
+            this.throttleTopicMessage(channel, currentTopic, diff, msg);
+        } else {
+            this.sendTopicMessage(channel, msg);
+        }
         if (updateSelf) {
-            // this.topicHandlerMap.get(eventName)?.forEach(handler => handler(newTopic));
-            // Send yourself the message, so that it runs through the same logic as if it was received from another client
-            this.onReceiveTopicMessage(channel as TopicChannel<T>, this.wrapMessage(diff as JSONObject, "topic", source ?? this._id) as WithMeta<TopicMessage>)
+            // Send yourself the message, so that it runs through the same logic as if it was received from another client,
+            // applying it to the value before the update like the diffs of others
+            this.topicMap.set(this.getChannelName(channel), currentTopic);
+            this.onReceiveTopicMessage(channel as TopicChannel<T>, msg);
+        } else {
+            this.recordOwnUpdate(channel, currentTopic, msg);
+        }
+        return msg;
+    }
+
+    /**
+     * Coalesces an update published by this client with the others in the current window of the channel's rate limit, sending them according to the throttle options
+     * @param channel The channel the update was published to
+     * @param previousTopic The topic value before the update
+     * @param diff The published diff
+     * @param msg The wrapped message of the update
+     */
+    private throttleTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, previousTopic: JSONValue, diff: DiffResult<T, T>, msg: WithMeta<TopicMessage>): void {
+        const eventName = this.getChannelName(channel);
+        const throttle = this.throttles.get(eventName) ?? { channel: channel as TopicChannel<JSONValue> };
+        this.throttles.set(eventName, throttle);
+        if (throttle.pending === undefined) {
+            throttle.pending = { baseline: previousTopic, value: previousTopic, source: msg.source, ephemeral: false };
+        }
+        throttle.pending.value = mergeDiff(throttle.pending.value, diff);
+        throttle.pending.source = msg.source;
+        throttle.pending.ephemeral = throttle.pending.ephemeral || msg.ephemeral === true;
+        if (throttle.timeout === undefined) {
+            // Outside a window, so this update starts one
+            if (channel.throttle?.leading ?? true) {
+                this.flushTopic(channel);
+            }
+            this.startThrottleWindow(eventName, throttle);
+        }
+    }
+
+    /**
+     * Starts a window of a channel's rate limit, sending the coalesced updates at its end if trailing
+     * @param eventName The event name of the channel
+     * @param throttle The state of the rate limit
+     */
+    private startThrottleWindow(eventName: string, throttle: TopicThrottleState): void {
+        const options = throttle.channel.throttle ?? {};
+        const interval = options.minIntervalMs ?? (options.maxHz !== undefined ? 1000 / options.maxHz : 0);
+        throttle.timeout = setTimeout(() => {
+            throttle.timeout = undefined;
+            if (throttle.pending !== undefined && (options.trailing !== false || options.leading === false)) {
+                this.flushTopic(throttle.channel);
+                // Sending starts a new window, so the rate limit also holds for the updates that follow
+                this.startThrottleWindow(eventName, throttle);
+            }
+        }, interval);
+    }
+
+    /**
+     * Sends the updates to a throttled topic channel that are held back by its rate limit right away
+     * @param channel The channel
+     */
+    flushTopic<T extends JSONValue>(channel: TopicChannel<T>): void {
+        const throttle = this.throttles.get(this.getChannelName(channel));
+        const pending = throttle?.pending;
+        if (throttle === undefined || pending === undefined) {
+            return;
+        }
+        throttle.pending = undefined;
+        const coalesced = diff(pending.baseline, pending.value, { arrays: this.diffsArrays(channel) }) as DiffResult<T, T>;
+        if (coalesced.modified === undefined && coalesced.deleted === undefined && coalesced.arrays === undefined) {
+            return; // The updates cancelled each other out
+        }
+        const msg = this.wrapTopicMessage(channel, coalesced, pending.source);
+        if (pending.ephemeral) {
+            msg.ephemeral = true;
+        }
+        this.sendTopicMessage(channel, msg);
+    }
+
+    /**
+     * Publishes updates to several topic channels as one message, which every receiver applies at once, only calling subscribers after all of the topics are updated
+     *
+     * The updates are always applied to the client's own topics as well
+     * @param build Function adding the updates to the transaction
+     * @throws Error if the updates would make a valid topic invalid, in which case nothing is published
+     */
+    transaction(build: (tx: TopicTransaction) => void): void {
+        const values: Map<string, { channel: TopicChannel<JSONValue>, value: JSONValue }> = new Map();
+        const getValue = <T extends JSONValue>(channel: TopicChannel<T>): JSONValue => {
+            if (channel.mode !== "topic") {
+                throw new Error("Channel is not a topic channel");
+            }
+            this.initTopicChannel(channel);
+            const eventName = this.getChannelName(channel);
+            return values.has(eventName) ? values.get(eventName)!.value : this.topicMap.get(eventName) as JSONValue;
+        };
+        build({
+            pub: (channel, data, publishDeletes = true) => {
+                if (data === undefined) {
+                    throw new Error("Data is undefined, which is equivalent to deleting the topic. Invalid operation.");
+                }
+                const current = getValue(channel);
+                const changes = diff(current, cloneDeep(data) as JSONValue);
+                if (!publishDeletes) {
+                    changes.deleted = undefined;
+                }
+                values.set(this.getChannelName(channel), { channel: channel as TopicChannel<JSONValue>, value: mergeDiff(current, changes) });
+            },
+            pubDiff: (channel, changes) => {
+                const current = getValue(channel);
+                values.set(this.getChannelName(channel), { channel: channel as TopicChannel<JSONValue>, value: mergeDiff(current, changes) });
+            },
+        });
+        const parts: TransactionPart[] = [];
+        values.forEach(({ channel, value }, eventName) => {
+            const changes = diff(this.topicMap.get(eventName) as JSONValue, value, { arrays: this.diffsArrays(channel) });
+            if (changes.modified !== undefined || changes.deleted !== undefined || changes.arrays !== undefined) {
+                parts.push({ channel, msg: this.wrapTopicMessage(channel, changes) });
+            }
+        });
+        if (parts.length === 0) {
+            return;
+        }
+        const invalid = this.findInvalidatingPart(parts);
+        if (invalid !== undefined) {
+            throw new Error(`Transaction would make topic ${invalid.channel.name} invalid`);
+        }
+        parts.forEach(({ channel, msg }) => {
+            // Updates held back by a rate limit are sent first, so receivers apply everything in order
+            this.flushTopic(channel);
+            if (channel.local !== true) {
+                this.assignSequence(channel, msg);
+            }
+        });
+        this.sendTransaction(parts.filter(({ channel }) => channel.local !== true));
+        this.onReceiveTransaction(parts);
+    }
+
+    /**
+     * Broadcasts the parts of a transaction as one message
+     * @param parts The parts of the transaction, with their sequence numbers assigned
+     */
+    protected sendTransaction(parts: TransactionPart[]): void {
+        if (parts.length === 0) {
+            return;
+        }
+        parts.forEach(({ channel, msg }) => this.tapMessage(channel, msg, "out"));
+        this.emitRawEvent("transaction", this.encodeTransaction(parts), "*");
+    }
+
+    /**
+     * Encodes the parts of a transaction with the configured codec, compressing them if their channels have compression enabled
+     * @param parts The parts of the transaction
+     * @returns The encoded transaction message
+     */
+    protected encodeTransaction(parts: TransactionPart[]): any {
+        const message: TransactionMessage = {
+            parts: parts.map(({ channel, msg }) => ({ event: this.getChannelName(channel), msg: this.compressTopicMessage(channel, msg) })),
+        };
+        return this.options.codec.encode(message);
+    }
+
+    /**
+     * Records the clock timestamps of an update published without updating self, so older concurrent updates do not overwrite it
+     * @param channel The channel the update was published to
+     * @param previousTopic The topic value before the update
+     * @param msg The published message
+     */
+    private recordOwnUpdate<T extends JSONValue>(channel: TopicChannel<T>, previousTopic: JSONValue, msg: WithMeta<TopicMessage>): void {
+        const lwwState = this.lwwStates.get(this.getChannelName(channel));
+        if (lwwState !== undefined && msg.hlc !== undefined) {
+            lwwState.resolve(previousTopic, msg as DiffResult<JSONValue, JSONValue>, msg.hlc);
         }
     }
 
@@ -817,7 +1810,7 @@ export abstract class BaseClient<V = void> {
             // Only return serviceData if it it not undefined
             ...(serviceData !== undefined ? {serviceData} : {})
         }
-        this.emitRawEvent(this.getChannelName(channel), this.wrapMessage(msg as JSONObject, "service"), dest);
+        this.emitChannelMessage(channel, this.wrapMessage(msg as JSONObject, "service"), dest);
     }
 
     /**
@@ -860,6 +1853,55 @@ export abstract class BaseClient<V = void> {
         return currentTopic as T;
     }
 
+    /**
+     * Gets the history of a topic channel
+     * @param channel The channel to get the history of
+     * @returns The history of the topic channel
+     * @throws Error if the channel is not a topic channel, not found, or does not have history enabled
+     */
+    private getTopicHistory<T extends JSONValue>(channel: TopicChannel<T>): TopicHistory {
+        if (channel.mode !== "topic") {
+            throw new Error("Channel is not a topic channel");
+        }
+        const history = this.topicHistoryMap.get(this.getChannelName(channel));
+        if (history === undefined) {
+            throw new Error(`Topic ${channel.name} does not have history enabled, or is not initialized`);
+        }
+        return history;
+    }
+
+    /**
+     * Gets the value a topic channel had at a point in time, by replaying its history
+     * @param channel The channel to get the value of (must have history enabled)
+     * @param timestamp The point in time (in ms since the epoch, like message timestamps)
+     * @returns The value at that time, or undefined if the history does not reach back that far or the value was not valid
+     * @throws Error if the channel is not a topic channel, not found, or does not have history enabled
+     */
+    getTopicAt<T extends JSONValue>(channel: TopicChannel<T>, timestamp: number): T | undefined {
+        const value = this.getTopicHistory(channel).valueAt(timestamp);
+        if (value === undefined || !channel.schema.safeParse(value).success) {
+            return undefined;
+        }
+        return value as T;
+    }
+
+    /**
+     * Gets the diffs applied to a topic channel within a time range, each with the value it resulted in
+     * @param channel The channel to get the history of (must have history enabled)
+     * @param range The time range (in ms since the epoch, both inclusive), defaulting to the whole history
+     * @returns The past values of the topic channel, oldest first
+     * @throws Error if the channel is not a topic channel, not found, or does not have history enabled
+     */
+    getHistory<T extends JSONValue>(channel: TopicChannel<T>, range: { since?: number, until?: number } = {}): TopicHistoryState<T>[] {
+        return this.getTopicHistory(channel).valuesBetween(range.since ?? -Infinity, range.until ?? Infinity).map(({ timestamp, diff, source, value }) => ({
+            timestamp,
+            diff: diff as DiffResult<T, T>,
+            source,
+            value: value as RecursivePartial<T>,
+            valid: channel.schema.safeParse(value).success
+        }));
+    }
+
     /**
      * Gets a promise that resolves with a topic channel's value (waits for a value before resolving)
      * @param channel The channel to get the value of
@@ -954,6 +1996,19 @@ export abstract class BaseClient<V = void> {
         }
         this.topicMap.set(channelName, {});
         this.topicsValid.set(channelName, false);
+        // Errors of diffs on the value before the reset no longer apply
+        this.updateValidity(channelName, undefined, this._id);
+        // Updates held back by the rate limit are relative to the value before the reset
+        clearTimeout(this.throttles.get(channelName)?.timeout);
+        this.throttles.delete(channelName);
+        // Messages missed while resetting are covered by the full topic, so they are not gaps
+        this.receivedSequences.delete(channelName);
+        // The clock timestamps and horizon describe the value before the reset, so the full topic would be compared against them
+        if (this.lwwStates.has(channelName)) {
+            this.lwwStates.set(channelName, this.createLWWTopicState());
+        }
+        // Record the reset, so replaying the history does not keep values from before it
+        this.topicHistoryMap.get(channelName)?.record({ timestamp: Date.now(), diff: { modified: {}, deleted: null } as DiffResult<JSONValue, JSONValue>, source: this._id });
     }
 
     /**
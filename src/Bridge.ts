@@ -0,0 +1,257 @@
+// Bridge for mirroring channels between two TopicServer instances, e.g. one per robot and one in the control room
+
+import { isEqual } from "lodash";
+import { IBaseClientOptions, Unsubscriber } from "./BaseClient";
+import { IClient, TopicClient } from "./Client";
+import { WithMeta, ServiceMessage } from "./Messages";
+import { ServerMeta, serverMetaChannel } from "./metaChannels";
+import { RequestType, ServiceChannel, ServiceResponseType, TopicChannel } from "./utils/Channel";
+import { JSONValue } from "./utils/JSON";
+import { DiffResult } from "./utils/Compare";
+
+/**
+ * Separator between a bridge namespace and the ID of a client behind the bridge
+ */
+export const namespaceSeparator = "/";
+
+export interface ITopicBridgeOptions {
+    /**
+     * Topic channels to mirror in both directions
+     * @default []
+     */
+    topics: TopicChannel<any>[];
+    /**
+     * Service channels whose requests are proxied to clients behind the other server
+     * @default []
+     */
+    services: ServiceChannel<any, any>[];
+    /**
+     * Namespace under which the clients of server A appear in the server meta of server B
+     */
+    namespaceA: string;
+    /**
+     * Namespace under which the clients of server B appear in the server meta of server A
+     */
+    namespaceB: string;
+    /**
+     * Timeout for proxied service requests (in ms)
+     * @default 1000
+     */
+    serviceTimeout: number;
+}
+
+/**
+ * Client for one side of a {@link TopicBridge}, which can intercept service requests addressed to clients behind the bridge
+ */
+class BridgeClient extends TopicClient {
+    /**
+     * Proxy for service messages, returning whether the message was handled
+     */
+    proxyService?: (channel: ServiceChannel<RequestType, ServiceResponseType>, msg: WithMeta<ServiceMessage>) => boolean;
+
+    protected onReceiveServiceMessage<T extends RequestType = void, U extends ServiceResponseType = void>(channel: ServiceChannel<T, U>, msg: WithMeta<ServiceMessage>, sender?: void): void {
+        if (this.proxyService?.(channel as ServiceChannel<RequestType, ServiceResponseType>, msg)) {
+            return;
+        }
+        super.onReceiveServiceMessage(channel, msg, sender);
+    }
+
+    /**
+     * Listens on a service channel without serving it, so requests addressed to clients behind the bridge are received
+     * @param channel The service channel
+     */
+    listenService<T extends RequestType, U extends ServiceResponseType>(channel: ServiceChannel<T, U>): void {
+        this.initServiceChannel(channel);
+    }
+
+    /**
+     * Responds to a proxied service request
+     * @param channel The service channel
+     * @param id The service ID
+     * @param result The response data
+     * @param dest The client that made the request
+     */
+    respond<T extends RequestType, U extends ServiceResponseType>(channel: ServiceChannel<T, U>, id: string, result: ServiceResponseType, dest: string): void {
+        this.sendServiceResponseMessage(channel, id, result, dest);
+    }
+
+    /**
+     * Responds to a proxied service request with an error
+     * @param channel The service channel
+     * @param id The service ID
+     * @param errorMessage The error message
+     * @param dest The client that made the request
+     */
+    respondError<T extends RequestType, U extends ServiceResponseType>(channel: ServiceChannel<T, U>, id: string, errorMessage: string, dest: string): void {
+        this.sendServiceErrorMessage(channel, id, errorMessage, dest);
+    }
+}
+
+/**
+ * Bridge connecting two {@link TopicServer} instances, by connecting a client to each of them
+ *
+ * - Chosen topics are mirrored in both directions; updates published by the bridge itself are recognized by their source and not forwarded back
+ * - Clients of each server appear in the other server's meta as `namespace/clientID`, and service requests to them are proxied through the bridge
+ */
+export class TopicBridge {
+    /**
+     * Client connected to server A
+     */
+    private clientA: BridgeClient;
+    /**
+     * Client connected to server B
+     */
+    private clientB: BridgeClient;
+    /**
+     * Options
+     */
+    private options: ITopicBridgeOptions;
+    /**
+     * Unsubscribers for all subscriptions made by the bridge
+     */
+    private unsubscribers: Unsubscriber[] = [];
+
+    /**
+     * Creates a new bridge
+     * @param socketA The socket client connected to server A
+     * @param socketB The socket client connected to server B
+     * @param options The bridge options
+     * @param clientOptions Options for the underlying clients, such as the codec
+     */
+    constructor(socketA: IClient, socketB: IClient, options: Partial<ITopicBridgeOptions> & Pick<ITopicBridgeOptions, "namespaceA" | "namespaceB">, clientOptions?: Partial<IBaseClientOptions>) {
+        this.options = {
+            topics: [],
+            services: [],
+            serviceTimeout: 1000,
+            ...options
+        };
+        this.clientA = new BridgeClient(socketA, clientOptions);
+        this.clientB = new BridgeClient(socketB, clientOptions);
+        for (const channel of this.options.topics) {
+            this.mirrorTopic(channel, this.clientA, this.clientB);
+            this.mirrorTopic(channel, this.clientB, this.clientA);
+        }
+        this.clientA.proxyService = (channel, msg) => this.proxyService(channel, msg, this.clientA, this.clientB, this.options.namespaceB);
+        this.clientB.proxyService = (channel, msg) => this.proxyService(channel, msg, this.clientB, this.clientA, this.options.namespaceA);
+        for (const channel of this.options.services) {
+            this.clientA.listenService(channel);
+            this.clientB.listenService(channel);
+        }
+        this.mirrorMeta(this.clientA, this.clientB, this.options.namespaceA);
+        this.mirrorMeta(this.clientB, this.clientA, this.options.namespaceB);
+    }
+
+    /**
+     * Forwards updates of a topic from one side to the other
+     * @param channel The topic channel
+     * @param from The client to receive updates from
+     * @param to The client to publish the updates with
+     */
+    private mirrorTopic<T extends JSONValue>(channel: TopicChannel<T>, from: BridgeClient, to: BridgeClient): void {
+        this.unsubscribers.push(from.sub(channel, (value, unsubscribe, meta) => {
+            if (meta.source === from.id) {
+                // Published by the bridge itself, forwarding it would echo it back
+                return;
+            }
+            to.pubDiff(channel, meta.diff);
+        }, false));
+    }
+
+    /**
+     * Publishes the clients of one server into the meta of the other server under a namespace
+     * @param from The client connected to the server whose clients are published
+     * @param to The client connected to the server to publish to
+     * @param namespace The namespace to publish the clients under
+     */
+    private mirrorMeta(from: BridgeClient, to: BridgeClient, namespace: string): void {
+        let published: ServerMeta["clients"] = {};
+        const publish = (clients: ServerMeta["clients"]) => {
+            const deleted: Record<string, null> = {};
+            for (const id of Object.keys(published)) {
+                if (clients[id] === undefined) {
+                    deleted[id] = null;
+                }
+            }
+            const diff: DiffResult<ServerMeta, ServerMeta> = { modified: { clients } };
+            if (Object.keys(deleted).length > 0) {
+                diff.deleted = { clients: deleted };
+            }
+            to.pubDiff(serverMetaChannel, diff);
+            published = clients;
+        }
+        this.unsubscribers.push(from.sub(serverMetaChannel, (meta) => {
+            const clients: ServerMeta["clients"] = {};
+            for (const [id, client] of Object.entries(meta.clients)) {
+                // Skip the bridge itself, and clients that are behind another bridge
+                if (id === from.id || client.via !== undefined) continue;
+                clients[namespace + namespaceSeparator + id] = { services: client.services, via: to.id };
+            }
+            if (!isEqual(clients, published)) {
+                publish(clients);
+            }
+        }));
+        // Topics are reset on reconnection, so the entries need to be published again
+        this.unsubscribers.push(to.subConnectionStatus((status) => {
+            if (status === "connected" && Object.keys(published).length > 0) {
+                publish(published);
+            }
+        }));
+    }
+
+    /**
+     * Proxies a service request addressed to clients behind the bridge
+     * @param channel The service channel
+     * @param msg The service message
+     * @param from The client the request was received on
+     * @param to The client connected to the server hosting the service
+     * @param namespace The namespace of the clients behind the bridge
+     * @returns Whether the request was handled by the proxy
+     */
+    private proxyService(channel: ServiceChannel<RequestType, ServiceResponseType>, msg: WithMeta<ServiceMessage>, from: BridgeClient, to: BridgeClient, namespace: string): boolean {
+        if (msg.dest === "*") {
+            return false;
+        }
+        const prefix = namespace + namespaceSeparator;
+        const targets = msg.dest.filter(dest => dest.startsWith(prefix));
+        for (const target of targets) {
+            const remoteID = target.slice(prefix.length);
+            let response: Promise<ServiceResponseType>;
+            try {
+                response = to.req(channel, remoteID, msg.serviceData as RequestType, this.options.serviceTimeout);
+            } catch (e) {
+                response = Promise.reject(e);
+            }
+            response.then((result) => {
+                from.respond(channel, msg.serviceId, result, msg.source);
+            }).catch((err) => {
+                from.respondError(channel, msg.serviceId, err instanceof Error ? err.message : JSON.stringify(err), msg.source);
+            });
+        }
+        // Let the bridge client handle requests addressed to itself
+        return targets.length > 0 && !msg.dest.includes(from.id);
+    }
+
+    /**
+     * Gets the ID of the client connected to server A
+     */
+    get idA(): string {
+        return this.clientA.id;
+    }
+
+    /**
+     * Gets the ID of the client connected to server B
+     */
+    get idB(): string {
+        return this.clientB.id;
+    }
+
+    /**
+     * Stops mirroring and disconnects from both servers
+     */
+    disconnect(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.clientA.disconnect();
+        this.clientB.disconnect();
+    }
+}
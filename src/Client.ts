@@ -1,6 +1,14 @@
 // Class extends SocketIO.Server but with extra methods to allow construction of topic sharing server
 
 import { BaseClient, IBaseClientOptions, Unsubscriber } from "./BaseClient";
+import { jsonCodec } from "./utils/Codec";
+import { topicAckSchema, TopicRejection, topicRejectionSchema } from "./Messages";
+import { TopicChannel } from "./utils/Channel";
+import { JSONValue } from "./utils/JSON";
+import { diff, DiffResult, RecursivePartial } from "./utils/Compare";
+import { changedPaths } from "./utils/Permissions";
+import { ServerMeta, serverMetaChannel } from "./metaChannels";
+import { cloneDeep, get, has, isEqual, set, unset } from "lodash";
 
 /**
  * Interface for a socket client that will be used by the TopicClient class
@@ -13,6 +21,24 @@ export interface IClient {
 
 export type ConnectionStatus = "connecting" | "connected" | "disconnected";
 
+/**
+ * Publish waiting for acknowledgement by the server, see {@link TopicClient.pubAck}
+ */
+interface PendingAck {
+    channel: TopicChannel<JSONValue>;
+    /**
+     * The topic before the publish, or undefined if it was not valid
+     */
+    previous?: JSONValue;
+    /**
+     * The topic right after the publish was applied locally
+     */
+    optimistic: JSONValue;
+    timeout: ReturnType<typeof setTimeout>;
+    resolve: () => void;
+    reject: (reason: Error) => void;
+}
+
 /**
  * Client class that will be used to connect to a TopicServer
  */
@@ -23,6 +49,18 @@ export class TopicClient extends BaseClient {
     private socket: IClient;
     private connectionStatus: ConnectionStatus = "disconnected";
     private connectionStatusListeners: Set<(status: ConnectionStatus) => void> = new Set();
+    /**
+     * Reason the server rejected the handshake, if it did
+     */
+    private handshakeError?: string;
+    /**
+     * Listeners for topic messages rejected by the server
+     */
+    private rejectionListeners: Set<(rejection: TopicRejection) => void> = new Set();
+    /**
+     * Publishes waiting for acknowledgement by the server, by channel name and sequence number
+     */
+    private pendingAcks: Map<string, PendingAck> = new Map();
     /**
      * Creates a new TopicClient instance
      * @param socketClient The socket client instance
@@ -33,7 +71,12 @@ export class TopicClient extends BaseClient {
         this.socket = socketClient;
         this.initialize();
         this.socket.on("connect", () => {
-            this.socket.emit("id", this._id); // Send the ID to the server, so it can match the SocketIO client ID with the TopicClient ID
+            this.handshakeError = undefined;
+            // Declare interest before identifying, so the topics exchanged when the server learns our ID reach us
+            this.sendInterest();
+            // Send the ID to the server, so it can match the SocketIO client ID with the TopicClient ID
+            // The codec is only sent if it is not the default, so older servers still understand the handshake
+            this.socket.emit("id", this.options.codec.name === jsonCodec.name ? this._id : { id: this._id, codec: this.options.codec.name });
             // Do nothing if error
             this.getServerID().then(id => {
                 this.setConnectionStatus("connected");
@@ -41,10 +84,26 @@ export class TopicClient extends BaseClient {
                 this.setConnectionStatus("connecting");
             });
         });
+        this.socket.on("handshakeError", (reason: string) => {
+            this.handshakeError = reason;
+            console.error(`❌ Server rejected connection: ${reason}`);
+        });
+        this.socket.on("topicRejected", (data: any) => {
+            this.onTopicRejected(data);
+        });
+        this.socket.on("topicAck", (data: any) => {
+            this.onTopicAck(data);
+        });
         this.socket.on("disconnect", () => {
             // When the socket disconnects, reset all topics
-            this.setConnectionStatus("connecting");
+            this.setConnectionStatus(this.handshakeError === undefined ? "connecting" : "disconnected");
             this.resetAllTopics();
+            // The topics are reset anyway, so there is nothing to roll back
+            this.pendingAcks.forEach(pending => {
+                clearTimeout(pending.timeout);
+                pending.reject(new Error(`Disconnected before the server acknowledged the publish to ${pending.channel.name}`));
+            });
+            this.pendingAcks.clear();
         })
     }
     /**
@@ -55,6 +114,37 @@ export class TopicClient extends BaseClient {
     protected onRawEvent(event: string, listener: (data: any) => void): void {
         this.socket.on(event, listener);
     }
+    /**
+     * Initializes a topic channel, declaring interest in it to the server before its full topic is requested
+     * @param channel The channel object
+     */
+    protected initTopicChannel<T extends JSONValue>(channel: TopicChannel<T>): void {
+        if (this.channelSchemaMap.has(this.getChannelName(channel))) {
+            return;
+        }
+        this.initializedTopicChannels.add(channel as TopicChannel<JSONValue>);
+        this.sendInterest();
+        super.initTopicChannel(channel);
+    }
+    /**
+     * Only diffs arrays element by element once the server declared support for it, since older servers would drop the operations
+     * @param channel The channel object
+     */
+    protected diffsArrays<T extends JSONValue>(channel: TopicChannel<T>): boolean {
+        if (!super.diffsArrays(channel)) {
+            return false;
+        }
+        const serverMeta = this.topicMap.get(this.getChannelName(serverMetaChannel)) as Partial<ServerMeta> | undefined;
+        const server = serverMeta?.serverID === undefined ? undefined : serverMeta.clients?.[serverMeta.serverID];
+        return channel.local === true || server?.features?.includes("arrays") === true;
+    }
+    /**
+     * Sends the topic channels this client is interested in to the server, which only sends topic messages of those channels to this client
+     * Called when a channel is first used by {@link BaseClient.sub}, {@link BaseClient.getTopic} or {@link BaseClient.pub}, and on every (re)connect
+     */
+    private sendInterest(): void {
+        this.socket.emit("interest", [...this.initializedTopicChannels].filter(channel => channel.local !== true).map(channel => this.getChannelName(channel)));
+    }
     /**
      * Implementation of emitRawEvent to allow the TopicClient to emit events
      * @param event The socket event to emit
@@ -90,6 +180,157 @@ export class TopicClient extends BaseClient {
         this.connectionStatus = status;
         this.connectionStatusListeners.forEach(listener => listener(status));
     }
+    /**
+     * Gets the reason the server rejected the last handshake, if it did
+     * @returns The rejection reason, or undefined if the handshake was not rejected
+     */
+    getHandshakeError(): string | undefined {
+        return this.handshakeError;
+    }
+    /**
+     * Subscribes to topic messages rejected by the server, e.g. because the client may not publish to the topic
+     * @param listener The listener function
+     * @returns A function to unsubscribe
+     */
+    subRejections(listener: (rejection: TopicRejection) => void): Unsubscriber {
+        this.rejectionListeners.add(listener);
+        return () => {
+            this.rejectionListeners.delete(listener);
+        }
+    }
+    /**
+     * Handles a topic message rejected by the server, resyncing the topic since the rejected changes were already applied locally
+     * @param data The rejection
+     */
+    private onTopicRejected(data: any): void {
+        const parse = topicRejectionSchema.safeParse(data);
+        if (!parse.success) {
+            console.warn("Invalid topic rejection received, ignoring it:", parse.error);
+            return;
+        }
+        const rejection = parse.data;
+        console.warn(`🚫 Server rejected topic message on ${rejection.channel}: ${rejection.message}`);
+        const channel = [...this.initializedTopicChannels].find(channel => channel.name === rejection.channel && channel.meta !== true);
+        const key = `${rejection.channel}/${rejection.seq}`;
+        if (rejection.seq !== undefined && this.pendingAcks.has(key)) {
+            // Rolling back the publish is enough to resync, since nothing else was dropped
+            this.settleAck(key, new Error(`Server rejected the publish to ${rejection.channel}: ${rejection.message}`));
+        } else if (channel !== undefined) {
+            this.resetTopic(channel);
+            this.sendRequestFullTopic(channel);
+        }
+        this.rejectionListeners.forEach(listener => listener(rejection));
+    }
+    /**
+     * Publishes a new value to a topic channel like {@link BaseClient.pub}, and waits for the server to confirm that it applied and relayed the diff
+     *
+     * The value is applied locally right away; if the server rejects the diff or does not confirm it in time, the local changes are rolled back,
+     * except for values that others updated since
+     * @param channel The channel to publish to
+     * @param data The new value
+     * @param timeout The time to wait for the acknowledgement (in ms)
+     * @returns A promise that resolves when the server acknowledged the diff, and rejects when the changes were rolled back
+     */
+    pubAck<T extends JSONValue>(channel: TopicChannel<T>, data: RecursivePartial<T>, timeout: number = 1000): Promise<void> {
+        if (channel.mode !== "topic") {
+            throw new Error("Channel is not a topic channel");
+        }
+        if (channel.local === true) {
+            throw new Error("Local topics are never sent to the server, so they cannot be acknowledged");
+        }
+        if (data === undefined) {
+            throw new Error("Data is undefined, which is equivalent to deleting the topic. Invalid operation.");
+        }
+        this.initTopicChannel(channel);
+        const eventName = this.getChannelName(channel);
+        const currentTopic = this.topicMap.get(eventName) as JSONValue;
+        const changes = diff(currentTopic as T, cloneDeep(data) as JSONValue, { arrays: this.diffsArrays(channel) });
+        if (changes.modified === undefined && changes.deleted === undefined && changes.arrays === undefined) {
+            return Promise.resolve(); // Nothing to publish
+        }
+        const previous = this.hasValidTopic(channel) ? currentTopic : undefined;
+        const msg = this.publishOwnUpdate(channel, currentTopic, changes as DiffResult<T, T>, true, undefined, false, true);
+        const key = `${channel.name}/${msg.seq?.number}`;
+        return new Promise((resolve, reject) => {
+            this.pendingAcks.set(key, {
+                channel: channel as TopicChannel<JSONValue>,
+                previous,
+                optimistic: cloneDeep(this.topicMap.get(eventName) as JSONValue),
+                timeout: setTimeout(() => {
+                    this.settleAck(key, new Error(`Server did not acknowledge the publish to ${channel.name} within ${timeout} ms`));
+                    if (previous !== undefined && channel.convergence === undefined) {
+                        // The server may have applied the changes after all
+                        this.sendRequestFullTopic(channel);
+                    }
+                }, timeout),
+                resolve,
+                reject,
+            });
+        });
+    }
+    /**
+     * Handles the acknowledgement of a publish by the server
+     * @param data The acknowledgement
+     */
+    private onTopicAck(data: any): void {
+        const parse = topicAckSchema.safeParse(data);
+        if (!parse.success) {
+            console.warn("Invalid topic acknowledgement received, ignoring it:", parse.error);
+            return;
+        }
+        this.settleAck(`${parse.data.channel}/${parse.data.seq}`);
+    }
+    /**
+     * Resolves a publish waiting for acknowledgement, or rolls it back and rejects it
+     * @param key The channel name and sequence number of the publish
+     * @param error The reason to roll back, if the publish was not acknowledged
+     */
+    private settleAck(key: string, error?: Error): void {
+        const pending = this.pendingAcks.get(key);
+        if (pending === undefined) {
+            return;
+        }
+        this.pendingAcks.delete(key);
+        clearTimeout(pending.timeout);
+        if (error === undefined) {
+            pending.resolve();
+            return;
+        }
+        if (pending.previous !== undefined && pending.channel.convergence === undefined) {
+            const rollback = this.rollbackDiff(pending.previous, pending.optimistic, this.topicMap.get(this.getChannelName(pending.channel)) as JSONValue);
+            if (rollback.modified !== undefined || rollback.deleted !== undefined) {
+                this.onReceiveTopicMessage(pending.channel, this.wrapTopicMessage(pending.channel, rollback));
+            }
+        } else {
+            // Invalid values cannot be restored by a diff, and a rollback would get a newer clock than the updates of others on channels with a convergence mode,
+            // so get the topic from the server instead
+            this.resetTopic(pending.channel);
+            this.sendRequestFullTopic(pending.channel);
+        }
+        pending.reject(error);
+    }
+    /**
+     * Creates the diff restoring the values a publish changed, skipping the ones that were updated by others since
+     * @param previous The topic before the publish
+     * @param optimistic The topic right after the publish
+     * @param current The current topic
+     * @returns The diff to apply to the current topic
+     */
+    private rollbackDiff(previous: JSONValue, optimistic: JSONValue, current: JSONValue): DiffResult<JSONValue, JSONValue> {
+        let restored = cloneDeep(current);
+        for (const path of changedPaths(previous, optimistic)) {
+            if (path.length === 0) {
+                restored = isEqual(current, optimistic) ? cloneDeep(previous) : restored;
+            } else if (isEqual(get(current, path), get(optimistic, path))) {
+                if (has(previous, path)) {
+                    set(restored as object, path, cloneDeep(get(previous, path)));
+                } else {
+                    unset(restored, path);
+                }
+            }
+        }
+        return diff(current, restored);
+    }
     disconnect(): void {
         this.socket.disconnect();
     }
@@ -0,0 +1,62 @@
+// File backed persistence for TopicServer topics, exported from the Node entry point since it uses the file system
+
+import { mkdirSync, readFileSync } from "fs";
+import { rename, writeFile } from "fs/promises";
+import { join } from "path";
+import { v4 as uuidv4 } from 'uuid';
+import { ITopicPersistence } from "./Persistence";
+import { JSONValue } from "./utils/JSON";
+
+/**
+ * File backed persistence, storing each topic as a JSON file in a directory
+ */
+export class FileTopicPersistence implements ITopicPersistence {
+    /**
+     * The directory the snapshots are stored in
+     */
+    private directory: string;
+
+    /**
+     * Creates a new file backed persistence, creating the directory if it does not exist
+     * @param directory The directory to store the snapshots in
+     */
+    constructor(directory: string) {
+        this.directory = directory;
+        mkdirSync(directory, { recursive: true });
+    }
+
+    /**
+     * Gets the path of the snapshot file of a topic
+     * @param channelName The name of the topic channel
+     * @returns The file path
+     */
+    private getPath(channelName: string): string {
+        return join(this.directory, encodeURIComponent(channelName) + ".json");
+    }
+
+    load(channelName: string): JSONValue | undefined {
+        let contents: string;
+        try {
+            contents = readFileSync(this.getPath(channelName), "utf8");
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+                console.warn(`Could not read snapshot of topic ${channelName}:`, e);
+            }
+            return undefined;
+        }
+        try {
+            return JSON.parse(contents);
+        } catch (e) {
+            console.warn(`Snapshot of topic ${channelName} is not valid JSON, ignoring it:`, e);
+            return undefined;
+        }
+    }
+
+    async save(channelName: string, value: JSONValue): Promise<void> {
+        // Write to a temporary file first and rename it, so a crash never leaves a partially written snapshot
+        const path = this.getPath(channelName);
+        const temporaryPath = `${path}.${uuidv4()}.tmp`;
+        await writeFile(temporaryPath, JSON.stringify(value), "utf8");
+        await rename(temporaryPath, path);
+    }
+}
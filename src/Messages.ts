@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { compressionAlgorithmSchema } from "./utils/Compression";
+import { ArrayDiff } from "./utils/Compare";
+import { hlcTimestampSchema } from "./utils/Convergence";
 
 // Generic message types
 
@@ -17,6 +20,10 @@ export const metaMessageSchema = z.object({
     timestamp: z.number(),
     messageType: messageTypeSchema,
     source: z.string(),
+    /**
+     * Hybrid logical clock timestamp, only sent with topic messages on channels with a convergence mode
+     */
+    hlc: hlcTimestampSchema.optional(),
 });
 
 export type MessageMeta = z.infer<typeof metaMessageSchema>;
@@ -41,15 +48,66 @@ export const jsonValueSchema = z.union([
     z.record(z.unknown()),
 ]);
 
+export const arrayOperationSchema = z.union([
+    z.object({ op: z.literal("insert"), index: z.number().int().nonnegative(), values: z.array(z.unknown()), length: z.number().int().nonnegative() }),
+    z.object({ op: z.literal("remove"), index: z.number().int().nonnegative(), count: z.number().int().nonnegative(), length: z.number().int().nonnegative() }),
+    z.object({ op: z.literal("replace"), index: z.number().int().nonnegative(), value: z.unknown() }),
+    z.object({ op: z.literal("move"), from: z.number().int().nonnegative(), to: z.number().int().nonnegative(), value: z.unknown(), length: z.number().int().nonnegative() }),
+]);
+
+export const arrayDiffSchema: z.ZodType<ArrayDiff> = z.lazy(() => z.union([
+    z.array(arrayOperationSchema),
+    z.record(arrayDiffSchema),
+])) as z.ZodType<ArrayDiff>;
+
 /**
  * Message containing the partial topic
+ * Element level array operations are only sent on channels with {@link TopicChannelOptions.arrayDiff}, and only to peers declaring support for them in the server meta
  */
 export const topicMessageSchema = z.object({
     modified: jsonValueSchema.optional(),
-    deleted: jsonValueSchema.optional()
+    deleted: jsonValueSchema.optional(),
+    arrays: arrayDiffSchema.optional(),
+    /**
+     * Per-property clock timestamps, only sent with full topics on channels with a convergence mode
+     */
+    clocks: z.record(hlcTimestampSchema).optional(),
+    /**
+     * Clock timestamp before which all changes are reflected in the full topic, sent along with the clocks once deletions were collected
+     */
+    horizon: hlcTimestampSchema.optional(),
+    /**
+     * Sequence number of the message among the topic messages sent on the channel by the node that sent it
+     * The server renumbers the messages it relays among those of the same node it relayed, so the ones it dropped leave no gaps
+     */
+    seq: z.object({
+        node: z.string(),
+        number: z.number().int(),
+    }).optional(),
+    /**
+     * Whether the server should delete the published properties when the publishing client disconnects
+     */
+    ephemeral: z.boolean().optional(),
+    /**
+     * Whether the server should confirm to the publishing client that it applied and relayed the diff
+     */
+    ack: z.boolean().optional(),
+    /**
+     * Schema version of the channel the diff was made in, 1 if missing
+     */
+    version: z.number().int().optional(),
 });
 export type TopicMessage = z.infer<typeof topicMessageSchema>;
 
+/**
+ * Message containing a compressed partial topic, which decompresses into a {@link TopicMessage}
+ */
+export const compressedTopicMessageSchema = z.object({
+    compression: compressionAlgorithmSchema,
+    payload: z.string(),
+});
+export type CompressedTopicMessage = z.infer<typeof compressedTopicMessageSchema>;
+
 /**
  * Message for a service
  */
@@ -75,4 +133,68 @@ export const serviceResponseMessageSchema = z.object({
 });
 export type ServiceResponseMessage = z.infer<typeof serviceResponseMessageSchema>;
 
+/**
+ * Sent by the server to a client whose topic message it did not accept, on the "topicRejected" event
+ */
+export const topicRejectionSchema = z.object({
+    /**
+     * The name of the topic channel
+     */
+    channel: z.string(),
+    /**
+     * Why the message was rejected
+     * - "unauthorized": the client may not publish (part of) the changes
+     * - "invalid": the changes would make the topic fail its schema
+     * - "quarantined": the client sent invalid changes before, and the server drops everything it publishes on the channel
+     * - "aborted": the message was part of a transaction that was dropped because another part of it was rejected
+     * - "superseded": newer changes of others won over (part of) the changes, on a channel with a convergence mode
+     */
+    reason: z.union([z.literal("unauthorized"), z.literal("invalid"), z.literal("quarantined"), z.literal("aborted"), z.literal("superseded")]),
+    /**
+     * Human readable description of the rejection
+     */
+    message: z.string(),
+    /**
+     * Sequence number of the rejected message, if it had one
+     */
+    seq: z.number().int().optional(),
+    /**
+     * The schema validation issues, for "invalid" rejections
+     */
+    issues: z.array(z.object({
+        path: z.array(z.union([z.string(), z.number()])),
+        message: z.string(),
+    }).passthrough()).optional(),
+});
+export type TopicRejection = z.infer<typeof topicRejectionSchema>;
+
+/**
+ * Sent by the server to a client whose topic message requesting acknowledgement it applied and relayed, on the "topicAck" event
+ */
+export const topicAckSchema = z.object({
+    /**
+     * The name of the topic channel
+     */
+    channel: z.string(),
+    /**
+     * Sequence number of the acknowledged message
+     */
+    seq: z.number().int(),
+});
+export type TopicAck = z.infer<typeof topicAckSchema>;
+
+/**
+ * Topic messages on several channels that are applied together, sent on the "transaction" event
+ */
+export const transactionMessageSchema = z.object({
+    /**
+     * The topic messages (compressed if their channel has compression enabled), with the event names of their channels
+     */
+    parts: z.array(z.object({
+        event: z.string(),
+        msg: z.unknown(),
+    })),
+});
+export type TransactionMessage = z.infer<typeof transactionMessageSchema>;
+
 export type WithMeta<T> = T & MessageMeta;
\ No newline at end of file
@@ -0,0 +1,21 @@
+// Persistence layer for restoring TopicServer topics after a restart
+
+import { JSONValue } from "./utils/JSON";
+
+/**
+ * Persistence interface; this is the interface that {@link TopicServer} uses to snapshot and restore topics
+ */
+export interface ITopicPersistence {
+    /**
+     * Loads the last snapshot of a topic
+     * @param channelName The name of the topic channel
+     * @returns The snapshot, or undefined if there is none
+     */
+    load(channelName: string): JSONValue | undefined;
+    /**
+     * Saves a snapshot of a topic, replacing the previous one
+     * @param channelName The name of the topic channel
+     * @param value The topic value
+     */
+    save(channelName: string, value: JSONValue): void | Promise<void>;
+}
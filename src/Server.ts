@@ -1,12 +1,18 @@
 // Class extends SocketIO.Server but with extra methods to allow construction of topic sharing server
 
-import { WithMeta, TopicMessage, ServiceMessage, MessageMeta, ServiceResponseMessage, RequestFullTopicMessage } from "./Messages";
+import { WithMeta, TopicMessage, ServiceMessage, MessageMeta, ServiceResponseMessage, RequestFullTopicMessage, TopicAck, TopicRejection } from "./Messages";
 import { ServerMeta, serverMetaChannel } from "./metaChannels";
-import { BaseClient, channelPrefix, DestType, IBaseClientOptions } from "./BaseClient";
-import { Channel, RequestType, ServiceChannel, ServiceResponseType, TopicChannel } from "./utils/Channel";
+import { BaseClient, channelPrefix, DestType, IBaseClientOptions, topicPrefix, TransactionPart, Unsubscriber, userPrefix } from "./BaseClient";
+import { Channel, RequestType, SchemaEnforcement, ServiceChannel, ServiceResponseType, TopicChannel } from "./utils/Channel";
 import { JSONValue } from "./utils/JSON";
 import { TopicClient } from "./Client";
-import { DiffResult } from "./utils/Compare";
+import { DiffResult, inlineArrayDiff, mergeDiff } from "./utils/Compare";
+import { jsonCodec } from "./utils/Codec";
+import { LWWTopicState } from "./utils/Convergence";
+import { BackplaneMessage, IBackplane } from "./Backplane";
+import { ITopicPersistence } from "./Persistence";
+import { changedPaths, isPublishAllowed, permissionFor, TopicPermissions } from "./utils/Permissions";
+import { cloneDeep, get, isEqual } from "lodash";
 
 
 /**
@@ -58,6 +64,10 @@ export class TopicServer extends BaseClient<IServerClient> {
      * Map between {@link TopicClient} IDs and socket IDs
      */
     private clientToSocketID: Map<string, string> = new Map(); // Two way map for O(1) lookup on both sides
+    /**
+     * IDs of the clients registered as bridges, which may publish on behalf of the clients behind them
+     */
+    private bridges: Set<string> = new Set();
     /**
      * Internal server meta data for storing clients connected, and the services they provide
      */
@@ -66,10 +76,71 @@ export class TopicServer extends BaseClient<IServerClient> {
         clients: { // Server will fill in itself too, so no need to add it here
         }
     };
+    /**
+     * The backplane shared with other server nodes, if attached
+     */
+    private backplane?: IBackplane;
+    /**
+     * Unsubscriber for the backplane subscription
+     */
+    private unsubscribeBackplane?: Unsubscriber;
+    /**
+     * Map between other node IDs and the clients connected to them
+     */
+    private remoteClients: Map<string, ServerMeta["clients"]> = new Map();
+    /**
+     * The local clients last published to the backplane
+     */
+    private publishedLocalClients: ServerMeta["clients"] = {};
+    /**
+     * The persistence layer topics are snapshotted to, if attached
+     */
+    private persistence?: ITopicPersistence;
+    /**
+     * Delay (in ms) between an accepted diff and the snapshot of its topic
+     */
+    private persistenceDebounce: number = 1000;
+    /**
+     * Map between topic channel names and their pending snapshots
+     */
+    private pendingSnapshots: Map<string, { timeout: ReturnType<typeof setTimeout>, channel: TopicChannel<JSONValue> }> = new Map();
+    /**
+     * Set of topic channel names already restored from the persistence layer
+     */
+    private restoredTopics: Set<string> = new Set();
+    /**
+     * Map between topic channel names and publish permissions set on the server, overriding those of the channel
+     */
+    private topicPermissions: Map<string, TopicPermissions | undefined> = new Map();
+    /**
+     * Map between topic channel names and the IDs of the clients owning them
+     */
+    private topicOwners: Map<string, string> = new Map();
+    /**
+     * Map between topic channel names and schema enforcement policies set on the server, overriding those of the channel
+     */
+    private schemaEnforcements: Map<string, SchemaEnforcement | undefined> = new Map();
+    /**
+     * Map between topic channel names and the IDs of the clients quarantined on them
+     */
+    private quarantinedClients: Map<string, Set<string>> = new Map();
+    /**
+     * Map between socket IDs and the event names of the topic channels their clients are interested in
+     * Sockets that never declared their interests (older clients) receive every topic
+     */
+    private interests: Map<string, Set<string>> = new Map();
+    /**
+     * Map between topic channel names and the number of messages relayed per source node, see {@link TopicServer.numberRelayedMessage}
+     */
+    private relayedSequences: Map<string, Map<string, number>> = new Map();
+    /**
+     * Map between client IDs and the paths of the topic properties they published ephemerally, per topic channel name
+     */
+    private ephemeralContributions: Map<string, Map<string, { channel: TopicChannel<JSONValue>, paths: string[][] }>> = new Map();
     /**
      * Extra channels the server handles with onRawEvent that are not topic or service channels
      */
-    static metaChannels = ["id"]; // "id" channel is used to match socket IDs with client IDs. Clients will send their ID to the server on connect, and the server will match it with the socket ID.
+    static metaChannels = ["id", "interest", "transaction"]; // "id" channel is used to match socket IDs with client IDs. Clients will send their ID to the server on connect, and the server will match it with the socket ID.
 
     /**
      * Creates a new TopicServer instance
@@ -95,12 +166,29 @@ export class TopicServer extends BaseClient<IServerClient> {
             socket.on("disconnect", () => {
                 console.log("❌ Client disconnected: " + socket.id);
                 this.clientSockets.delete(socket.id);
+                this.interests.delete(socket.id);
                 const clientID = this.socketToClientID.get(socket.id);
                 if (clientID !== undefined) {
                     this.clientToSocketID.delete(clientID);
                     this.socketToClientID.delete(socket.id);
-                    // Remove client from server meta
+                    // Release the topics owned by the client, so another client can claim them
+                    for (const [eventName, owner] of this.topicOwners) {
+                        if (owner === clientID) {
+                            this.topicOwners.delete(eventName);
+                        }
+                    }
+                    // Quarantines only last until the client reconnects
+                    this.quarantinedClients.forEach(clients => clients.delete(clientID));
+                    this.relayedSequences.forEach(sequences => sequences.delete(clientID));
+                    // Remove client from server meta, along with any clients reachable through it
                     delete this.clientMeta.clients[clientID as string];
+                    this.removeEphemeralContributions(clientID);
+                    for (const [id, client] of Object.entries(this.clientMeta.clients)) {
+                        if (client.via === clientID) {
+                            delete this.clientMeta.clients[id];
+                            this.removeEphemeralContributions(id);
+                        }
+                    }
                     super.pub(serverMetaChannel, this.clientMeta);
                 } else {
                     console.warn("Client disconnected, but no matching client ID found");
@@ -108,22 +196,43 @@ export class TopicServer extends BaseClient<IServerClient> {
             });
             // Add client to server meta
         });
+        this.onRawEvent("interest", (data: any, sender?: IServerClient) => {
+            if (sender === undefined) {
+                throw new Error("No sender provided, should not happen for interest event");
+            }
+            if (!Array.isArray(data) || !data.every(event => typeof event === "string")) {
+                console.warn(`Invalid interest declaration received from socket ${sender.id}, ignoring it:`, data);
+                return;
+            }
+            this.interests.set(sender.id, new Set(data));
+        });
         this.onRawEvent("id", (data: any, sender?: IServerClient) => {
             if (sender !== undefined) {
+                // Clients using the default codec send their ID as a plain string, for compatibility with older servers
+                const clientID: string = typeof data === "string" ? data : data?.id;
+                const codec: string = typeof data === "string" ? jsonCodec.name : data?.codec;
+                if (codec !== this.options.codec.name) {
+                    // Reject clients that would not be able to decode our messages
+                    const reason = `Codec mismatch: server uses "${this.options.codec.name}", client ${clientID} uses "${codec}"`;
+                    sender.emit("handshakeError", reason);
+                    sender.disconnect();
+                    console.warn(`${reason}, disconnecting`);
+                    return;
+                }
                 // Check if client ID is already in use
-                if (this.clientToSocketID.has(data)) {
+                if (this.clientToSocketID.has(clientID)) {
                     // Disconnect this client
                     sender.disconnect();
-                    console.warn(`Client ${data} already connected, disconnecting`);
+                    console.warn(`Client ${clientID} already connected, disconnecting`);
                     return;
                 }
-                this.clientToSocketID.set(data, sender.id);
-                this.socketToClientID.set(sender.id, data);
+                this.clientToSocketID.set(clientID, sender.id);
+                this.socketToClientID.set(sender.id, clientID);
                 // Request full topic for all topics
                 this.initializedTopicChannels.forEach((channel) => {
                     this.sendRequestFullTopic(channel)
                 });
-                console.log(`✅ Client ${data} connected to server`);
+                console.log(`✅ Client ${clientID} connected to server`);
             } else {
                 throw new Error("No sender provided, should not happen for id event"); // No senders happen when server sends message to itself
             }
@@ -135,6 +244,7 @@ export class TopicServer extends BaseClient<IServerClient> {
     protected initialize(): void {
         this.sub(serverMetaChannel, (data: ServerMeta) => {
             this.clientMeta = data;
+            this.publishLocalClients();
         });
         super.pub(serverMetaChannel, this.clientMeta, true, false);
         super.initialize(); // Initialize afterwards, so we publish server ID first, so the subscription doesnt overwrite client meta (and its server ID)
@@ -156,8 +266,8 @@ export class TopicServer extends BaseClient<IServerClient> {
      */
     protected emitRawEvent(event: string, data: any, dest: DestType): void {
         if (dest === "*") {
-            // Broadcast to all sockets
-            this.socket.emit(event, data);
+            // Broadcast to all sockets interested in the channel
+            this.emitToInterested(event, data);
         } else {
             // See if we can find our own id, directly send to ourselves. 
             // This use case is for calling our services without going through the server. Topics are always broadcasted so it won't be an issue.
@@ -173,26 +283,115 @@ export class TopicServer extends BaseClient<IServerClient> {
             for (const socket of sockets) {
                 socket.emit(event, data);
             }
+            this.forwardToBackplane(event, data, dest);
         }
     }
+    /**
+     * Emits an event to all sockets, except for user topic channels, which are only emitted to the sockets interested in them
+     * @param event The event name
+     * @param data The data to send
+     * @param except The socket not to send to, e.g. the sender of a forwarded message
+     * @param legacyData Creates the data to send to sockets without support for element level array operations instead, if it differs
+     */
+    private emitToInterested(event: string, data: any, except?: IServerClient, legacyData?: () => any): void {
+        if (!event.startsWith(channelPrefix + topicPrefix + userPrefix)) {
+            if (except !== undefined) {
+                except.broadcast.emit(event, data);
+            } else {
+                this.socket.emit(event, data);
+            }
+            return;
+        }
+        let legacy: any;
+        this.clientSockets.forEach((socket) => {
+            const interests = this.interests.get(socket.id);
+            if (socket !== except && (interests === undefined || interests.has(event))) {
+                if (legacyData === undefined || this.supportsArrayDiff(socket)) {
+                    socket.emit(event, data);
+                } else {
+                    legacy = legacy ?? legacyData();
+                    socket.emit(event, legacy);
+                }
+            }
+        });
+    }
+
+    /**
+     * Checks whether the client of a socket declared support for element level array operations in the server meta
+     * @param socket The socket
+     * @returns Whether array operations can be sent to the socket
+     */
+    private supportsArrayDiff(socket: IServerClient): boolean {
+        const clientID = this.socketToClientID.get(socket.id);
+        return clientID !== undefined && this.clientMeta.clients[clientID]?.features?.includes("arrays") === true;
+    }
+
+    /**
+     * Only diffs arrays element by element while every connected client supports it, since the diffs are sent to all of them
+     * @param channel The channel object
+     */
+    protected diffsArrays<T extends JSONValue>(channel: TopicChannel<T>): boolean {
+        return super.diffsArrays(channel) && (channel.local === true || [...this.clientSockets.values()].every(socket => this.supportsArrayDiff(socket)));
+    }
+
+    /**
+     * Numbers a topic message from another node by the messages of that node relayed on the channel, instead of all messages that node sent,
+     * so the messages this server dropped, e.g. rejected ones, do not show up as gaps to the receivers
+     * @param channel The topic channel
+     * @param msg The topic message
+     * @returns A copy of the message with the relayed sequence number, leaving the original number for acknowledging it
+     */
+    private numberRelayedMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>): WithMeta<TopicMessage> {
+        if (msg.seq === undefined) {
+            return msg;
+        }
+        const eventName = this.getChannelName(channel);
+        if (!this.relayedSequences.has(eventName)) {
+            this.relayedSequences.set(eventName, new Map());
+        }
+        const sequences = this.relayedSequences.get(eventName)!;
+        const number = (sequences.get(msg.seq.node) ?? 0) + 1;
+        sequences.set(msg.seq.node, number);
+        return { ...msg, seq: { node: msg.seq.node, number } };
+    }
+
+    /**
+     * Sends a topic message to all sockets interested in its channel, replacing its array operations by whole arrays for the clients that do not support them
+     * Should be called after the message is applied, since the whole arrays are taken from the topic
+     * @param channel The topic channel
+     * @param msg The topic message
+     * @param except The socket not to send to, e.g. the sender of the message
+     */
+    private relayTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, except?: IServerClient): void {
+        const eventName = this.getChannelName(channel);
+        const encode = (msg: WithMeta<TopicMessage>) => this.options.codec.encode(this.compressTopicMessage(channel, msg));
+        const legacyData = msg.arrays === undefined ? undefined : () => encode(inlineArrayDiff(msg as WithMeta<TopicMessage> & DiffResult<JSONValue, JSONValue>, this.topicMap.get(eventName)));
+        this.emitToInterested(eventName, encode(msg), except, legacyData);
+    }
+
     /**
      * Get all {@link IServerClient} sockets from a list of {@link TopicClient} IDs
+     * Clients behind a {@link TopicBridge} resolve to the socket of the bridge they are reachable through
      * @param dest The list of client IDs
      * @returns An array of {@link IServerClient} sockets
      */
     private getSockets(dest: string[]) {
         let sockets: IServerClient[] = [];
         for (const clientID of dest) {
-            const socketID = this.clientToSocketID.get(clientID);
+            const socketID = this.clientToSocketID.get(clientID) ?? this.clientToSocketID.get(this.clientMeta.clients[clientID]?.via ?? "");
             if (socketID) {
                 const socket = this.clientSockets.get(socketID);
                 if (socket) {
-                    sockets.push(socket);
+                    if (!sockets.includes(socket)) {
+                        sockets.push(socket);
+                    }
                 } else {
                     throw new Error(`Client ${clientID} has socket ID ${socketID} but socket not found`);
                 }
             } else if (clientID === this._id) {
                 // Ignore server
+            } else if (this.isRemoteClient(clientID)) {
+                // Connected to another node, reached through the backplane
             } else {
                 console.warn(`Client ${clientID} not found`);
             }
@@ -200,6 +399,585 @@ export class TopicServer extends BaseClient<IServerClient> {
         return sockets;
     }
 
+    /**
+     * Attaches a backplane, so this server shares topic state, service messages and its client list with other server nodes
+     * @param backplane The backplane shared by all nodes
+     */
+    attachBackplane(backplane: IBackplane): void {
+        if (this.backplane !== undefined) {
+            throw new Error("Backplane already attached");
+        }
+        this.backplane = backplane;
+        this.unsubscribeBackplane = backplane.subscribe(this._id, (message, nodeID) => this.onBackplaneMessage(message, nodeID));
+        this.publishLocalClients(true);
+        // Ask the other nodes for their state
+        backplane.publish(this._id, { type: "sync" });
+    }
+
+    /**
+     * Detaches the backplane, removing the clients of other nodes from the server meta
+     */
+    detachBackplane(): void {
+        if (this.backplane === undefined) {
+            return;
+        }
+        this.backplane.publish(this._id, { type: "meta", clients: {} });
+        this.unsubscribeBackplane?.();
+        this.backplane = undefined;
+        this.unsubscribeBackplane = undefined;
+        this.publishedLocalClients = {};
+        for (const nodeID of [...this.remoteClients.keys()]) {
+            this.setRemoteClients(nodeID, {});
+        }
+    }
+
+    /**
+     * Attaches a persistence layer, so topics are snapshotted after every accepted diff and restored when their channels are initialized
+     * Should be called before {@link TopicServer.initChannels}, so topics are restored before clients connect
+     * @param persistence The persistence layer
+     * @param debounce Delay (in ms) between an accepted diff and the snapshot of its topic
+     */
+    attachPersistence(persistence: ITopicPersistence, debounce: number = 1000): void {
+        if (this.persistence !== undefined) {
+            throw new Error("Persistence already attached");
+        }
+        this.persistence = persistence;
+        this.persistenceDebounce = debounce;
+        this.initializedTopicChannels.forEach((channel) => this.restoreTopic(channel));
+    }
+
+    /**
+     * Saves all pending snapshots immediately, e.g. before shutting down
+     * @returns A promise that resolves when all snapshots are saved
+     */
+    async flushPersistence(): Promise<void> {
+        const pending = [...this.pendingSnapshots.values()];
+        this.pendingSnapshots.clear();
+        await Promise.all(pending.map(({ timeout, channel }) => {
+            clearTimeout(timeout);
+            return this.saveSnapshot(channel);
+        }));
+    }
+
+    /**
+     * Registers a client as a {@link TopicBridge}, allowing it to list the clients behind it in the server meta and to publish on their behalf
+     * Only register clients under your own control, e.g. the IDs of a bridge created by the same process
+     * @param clientID The ID of the bridge client, e.g. {@link TopicBridge.idA}
+     */
+    registerBridge(clientID: string): void {
+        this.bridges.add(clientID);
+    }
+
+    /**
+     * Sets who may publish to a topic, overriding the permissions declared by the channel
+     * @param channel The topic channel
+     * @param permissions The permissions, or undefined to allow every client
+     */
+    setTopicPermissions<T extends JSONValue>(channel: TopicChannel<T>, permissions: TopicPermissions | undefined): void {
+        this.topicPermissions.set(this.getChannelName(channel), permissions);
+    }
+
+    /**
+     * Gets the owner of a topic, which is the first client to publish a change to a property only the owner may publish to
+     * @param channel The topic channel
+     * @returns The ID of the owner, or undefined if the topic has no owner (yet)
+     */
+    getTopicOwner<T extends JSONValue>(channel: TopicChannel<T>): string | undefined {
+        return this.topicOwners.get(this.getChannelName(channel));
+    }
+
+    /**
+     * Gets the permissions of a topic, set by {@link TopicServer.setTopicPermissions} or else declared by its channel
+     * @param channel The topic channel
+     * @returns The permissions, or undefined if every client may publish
+     */
+    private getTopicPermissions<T extends JSONValue>(channel: TopicChannel<T>): TopicPermissions | undefined {
+        const eventName = this.getChannelName(channel);
+        return this.topicPermissions.has(eventName) ? this.topicPermissions.get(eventName) : channel.permissions;
+    }
+
+    /**
+     * Checks a topic message from a client against the permissions of its channel, sending a rejection to the client if it may not publish (part of) it
+     * Does not claim the topic for the client, since the message may still be dropped, see {@link TopicServer.claimTopicOwnership}
+     * @param channel The topic channel
+     * @param msg The topic message
+     * @param sender The socket of the sender
+     * @returns Whether the message is allowed
+     */
+    private authorizeTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, sender: IServerClient): boolean {
+        const eventName = this.getChannelName(channel);
+        if (eventName === this.getChannelName(serverMetaChannel)) {
+            return this.authorizeServerMeta(msg, sender);
+        }
+        const permissions = this.getTopicPermissions(channel);
+        if (permissions === undefined) {
+            return true;
+        }
+        const clientID = this.getPublisherID(msg, sender);
+        const current = this.topicMap.get(eventName);
+        const paths = changedPaths(current, mergeDiff(current, msg as unknown as DiffResult<T, T>));
+        const owner = this.topicOwners.get(eventName);
+        const denied = paths.filter(path => {
+            const permission = permissionFor(permissions, path);
+            return permission !== "any" && (clientID === undefined || !isPublishAllowed(permission, clientID, path, owner));
+        });
+        if (denied.length > 0) {
+            this.rejectTopicMessage(sender, {
+                channel: channel.name,
+                reason: "unauthorized",
+                message: `Client ${clientID} may not publish to ${denied.map(path => "/" + path.join("/")).join(", ")}`,
+                seq: msg.seq?.number,
+            });
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Makes the publisher of an applied topic message the owner of the topic, if it has no owner yet and the message changed a property only the owner may publish to
+     * @param channel The topic channel
+     * @param msg The applied topic message
+     * @param previousTopic The topic value before the message
+     * @param sender The socket of the sender
+     */
+    private claimTopicOwnership<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, previousTopic: JSONValue | undefined, sender: IServerClient): void {
+        const eventName = this.getChannelName(channel);
+        const permissions = this.getTopicPermissions(channel);
+        const clientID = this.getPublisherID(msg, sender);
+        if (permissions === undefined || clientID === undefined || this.topicOwners.has(eventName)) {
+            return;
+        }
+        if (changedPaths(previousTopic, this.topicMap.get(eventName)).some(path => permissionFor(permissions, path) === "owner")) {
+            this.topicOwners.set(eventName, clientID);
+        }
+    }
+
+    /**
+     * Checks a server meta message from a client, which may only change its own entry, sending a rejection to the client otherwise
+     * Registered bridges may also change the entries of the clients behind them
+     * @param msg The server meta message
+     * @param sender The socket of the sender
+     * @returns Whether the message is allowed
+     */
+    private authorizeServerMeta(msg: WithMeta<TopicMessage>, sender: IServerClient): boolean {
+        const clientID = this.socketToClientID.get(sender.id);
+        const current = this.clientMeta;
+        const next = mergeDiff(current, msg as unknown as DiffResult<ServerMeta, ServerMeta>);
+        const denied = changedPaths(current, next).filter(path => {
+            const entryID = path[1];
+            if (path[0] !== "clients" || entryID === undefined || clientID === undefined) {
+                return true;
+            }
+            if (entryID === clientID) {
+                return false;
+            }
+            // Bridges may not take over the entries of this server, its clients, or the clients of other bridges and nodes
+            const entry = current.clients[entryID];
+            const nextEntry = next.clients?.[entryID];
+            return !this.bridges.has(clientID)
+                || entryID === this._id
+                || this.clientToSocketID.has(entryID)
+                || (entry !== undefined && entry.via !== clientID)
+                || (nextEntry !== undefined && nextEntry.via !== clientID);
+        });
+        if (denied.length > 0) {
+            this.rejectTopicMessage(sender, {
+                channel: serverMetaChannel.name,
+                reason: "unauthorized",
+                message: `Client ${clientID} may not publish to ${denied.map(path => "/" + path.join("/")).join(", ")} of the server meta`,
+                seq: msg.seq?.number,
+            });
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Sets what the server does with diffs that would make a topic fail its schema, overriding the policy declared by the channel
+     * @param channel The topic channel
+     * @param enforcement The policy, or undefined to use the policy of the channel
+     */
+    setSchemaEnforcement<T extends JSONValue>(channel: TopicChannel<T>, enforcement: SchemaEnforcement | undefined): void {
+        const eventName = this.getChannelName(channel);
+        if (enforcement === undefined) {
+            this.schemaEnforcements.delete(eventName);
+        } else {
+            this.schemaEnforcements.set(eventName, enforcement);
+        }
+    }
+
+    /**
+     * Gets the clients quarantined on a topic, whose diffs are all dropped
+     * @param channel The topic channel
+     * @returns The IDs of the quarantined clients
+     */
+    getQuarantinedClients<T extends JSONValue>(channel: TopicChannel<T>): string[] {
+        return [...(this.quarantinedClients.get(this.getChannelName(channel)) ?? [])];
+    }
+
+    /**
+     * Accepts diffs from a quarantined client on a topic again
+     * @param channel The topic channel
+     * @param clientID The ID of the client
+     */
+    releaseQuarantine<T extends JSONValue>(channel: TopicChannel<T>, clientID: string): void {
+        this.quarantinedClients.get(this.getChannelName(channel))?.delete(clientID);
+    }
+
+    /**
+     * Checks a topic message from a client against the schema of its channel, according to the schema enforcement policy of the channel
+     * @param channel The topic channel
+     * @param msg The topic message
+     * @param sender The socket of the sender
+     * @returns Whether the message is allowed
+     */
+    private enforceSchema<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, sender: IServerClient): boolean {
+        const eventName = this.getChannelName(channel);
+        const enforcement = this.schemaEnforcements.get(eventName) ?? channel.schemaEnforcement ?? "relay";
+        if (enforcement === "relay") {
+            return true;
+        }
+        const current = this.topicMap.get(eventName);
+        const merged = mergeDiff(current, msg as unknown as DiffResult<T, T>);
+        // Diffs that change nothing, such as full topics of clients that have no value yet, are harmless
+        if (changedPaths(current, merged).length === 0) {
+            return true;
+        }
+        const clientID = this.getPublisherID(msg, sender) ?? sender.id;
+        const quarantined = this.quarantinedClients.get(eventName) ?? new Set<string>();
+        if (quarantined.has(clientID)) {
+            this.rejectTopicMessage(sender, {
+                channel: channel.name,
+                reason: "quarantined",
+                message: `Client ${clientID} is quarantined on ${channel.name} for publishing invalid data`,
+                seq: msg.seq?.number,
+            });
+            return false;
+        }
+        const parse = channel.schema.safeParse(merged);
+        if (parse.success) {
+            return true;
+        }
+        if (enforcement === "quarantine") {
+            quarantined.add(clientID);
+            this.quarantinedClients.set(eventName, quarantined);
+        }
+        this.rejectTopicMessage(sender, {
+            channel: channel.name,
+            reason: "invalid",
+            message: `Diff from client ${clientID} would make ${channel.name} invalid: ${parse.error.issues.map(issue => `/${issue.path.join("/")}: ${issue.message}`).join(", ")}`,
+            seq: msg.seq?.number,
+            issues: parse.error.issues,
+        });
+        return false;
+    }
+
+    /**
+     * Sends a rejection of a topic message to its sender
+     * @param sender The socket of the sender
+     * @param rejection The rejection
+     */
+    private rejectTopicMessage(sender: IServerClient, rejection: TopicRejection): void {
+        console.warn(`🚫 Rejected topic message on ${rejection.channel}: ${rejection.message}`);
+        sender.emit("topicRejected", rejection);
+    }
+
+    /**
+     * Gets the ID of the client that published a message
+     * @param msg The message
+     * @param sender The socket the message was received from
+     * @returns The client ID, or undefined if the socket did not identify itself
+     */
+    private getPublisherID(msg: MessageMeta, sender: IServerClient): string | undefined {
+        const socketClientID = this.socketToClientID.get(sender.id);
+        // Clients behind a bridge publish through the socket of the bridge, which is only trusted to name them if registered
+        if (socketClientID !== undefined && this.bridges.has(socketClientID) && this.clientMeta.clients[msg.source]?.via === socketClientID) {
+            return msg.source;
+        }
+        return socketClientID;
+    }
+
+    /**
+     * Updates the ephemeral contributions after a topic message was applied
+     * Properties changed by anyone other than their ephemeral contributor are no longer deleted when it disconnects
+     * @param channel The topic channel
+     * @param msg The applied message
+     * @param previousTopic The topic value before the message
+     * @param sender The socket of the sender, undefined for the server itself
+     */
+    private trackEphemeralContributions<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, previousTopic: JSONValue | undefined, sender?: IServerClient): void {
+        const eventName = this.getChannelName(channel);
+        const topic = this.topicMap.get(eventName);
+        const changed = changedPaths(previousTopic, topic);
+        if (changed.length === 0) {
+            return;
+        }
+        const clientID = msg.ephemeral === true && sender !== undefined ? this.getPublisherID(msg, sender) : undefined;
+        const contains = (parent: string[], path: string[]) => parent.length <= path.length && parent.every((token, i) => token === path[i]);
+        for (const [contributor, contributions] of this.ephemeralContributions) {
+            const contribution = contributions.get(eventName);
+            if (contribution === undefined) {
+                continue;
+            }
+            contribution.paths = contribution.paths.filter(path => {
+                const touched = changed.some(changedPath => contains(path, changedPath) || contains(changedPath, path));
+                // Contributors keep updating their own properties, until they delete them
+                return !touched || (contributor === clientID && get(topic, path) !== undefined);
+            });
+            if (contribution.paths.length === 0) {
+                contributions.delete(eventName);
+            }
+        }
+        if (clientID === undefined) {
+            return;
+        }
+        const contributions = this.ephemeralContributions.get(clientID) ?? new Map<string, { channel: TopicChannel<JSONValue>, paths: string[][] }>();
+        const contribution = contributions.get(eventName) ?? { channel: channel as TopicChannel<JSONValue>, paths: [] as string[][] };
+        for (const path of changed) {
+            if (path.length === 0 || get(topic, path) === undefined || contribution.paths.some(tracked => contains(tracked, path))) {
+                continue;
+            }
+            contribution.paths = [...contribution.paths.filter(tracked => !contains(path, tracked)), path];
+        }
+        if (contribution.paths.length > 0) {
+            contributions.set(eventName, contribution);
+            this.ephemeralContributions.set(clientID, contributions);
+        }
+    }
+
+    /**
+     * Publishes deletions of the properties a client published ephemerally
+     * @param clientID The ID of the client
+     */
+    private removeEphemeralContributions(clientID: string): void {
+        const contributions = this.ephemeralContributions.get(clientID);
+        if (contributions === undefined) {
+            return;
+        }
+        this.ephemeralContributions.delete(clientID);
+        contributions.forEach(({ channel, paths }) => {
+            const deleted: Record<string, any> = {};
+            for (const path of paths) {
+                let parent = deleted;
+                path.slice(0, -1).forEach(token => parent = parent[token] = parent[token] ?? {});
+                parent[path[path.length - 1]] = null;
+            }
+            this.pubDiff(channel, { deleted } as DiffResult<JSONValue, JSONValue>);
+        });
+    }
+
+    /**
+     * Restores a topic from its snapshot, validating it like any other incoming diff
+     * @param channel The topic channel
+     */
+    private restoreTopic<T extends JSONValue>(channel: TopicChannel<T>): void {
+        const eventName = this.getChannelName(channel);
+        if (this.persistence === undefined || channel.meta === true || this.restoredTopics.has(eventName)) {
+            return;
+        }
+        this.restoredTopics.add(eventName);
+        const snapshot = this.persistence.load(channel.name);
+        if (snapshot === undefined) {
+            return;
+        }
+        this.onReceiveTopicMessage(channel, this.wrapTopicMessage(channel, { modified: snapshot } as DiffResult<T, T>));
+        if (!this.hasValidTopic(channel)) {
+            console.warn(`Snapshot of topic ${channel.name} does not match its schema:`, this.topicsInvalidReasons.get(eventName));
+        }
+    }
+
+    /**
+     * Schedules a snapshot of a topic, debounced by {@link TopicServer.persistenceDebounce}
+     * @param channel The topic channel
+     */
+    private scheduleSnapshot<T extends JSONValue>(channel: TopicChannel<T>): void {
+        if (this.persistence === undefined || channel.meta === true) {
+            return;
+        }
+        const eventName = this.getChannelName(channel);
+        const pending = this.pendingSnapshots.get(eventName);
+        if (pending !== undefined) {
+            clearTimeout(pending.timeout);
+        }
+        this.pendingSnapshots.set(eventName, {
+            channel: channel as TopicChannel<JSONValue>,
+            timeout: setTimeout(() => {
+                this.pendingSnapshots.delete(eventName);
+                this.saveSnapshot(channel);
+            }, this.persistenceDebounce)
+        });
+    }
+
+    /**
+     * Saves a snapshot of a topic if it is valid
+     * @param channel The topic channel
+     * @returns A promise that resolves when the snapshot is saved
+     */
+    private async saveSnapshot<T extends JSONValue>(channel: TopicChannel<T>): Promise<void> {
+        if (this.persistence === undefined || !this.hasValidTopic(channel)) {
+            return;
+        }
+        try {
+            await this.persistence.save(channel.name, this._getUnsafeTopic(channel) as JSONValue);
+        } catch (e) {
+            console.warn(`Could not save snapshot of topic ${channel.name}:`, e);
+        }
+    }
+
+    /**
+     * Checks whether a client is connected to another node
+     * @param clientID The client ID
+     * @returns Whether the client is listed by another node
+     */
+    private isRemoteClient(clientID: string): boolean {
+        for (const clients of this.remoteClients.values()) {
+            if (clients[clientID] !== undefined) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Publishes the clients connected to this node to the backplane, if they changed since last published
+     * @param force Whether to publish even if they did not change
+     */
+    private publishLocalClients(force: boolean = false): void {
+        if (this.backplane === undefined) {
+            return;
+        }
+        const clients: ServerMeta["clients"] = {};
+        for (const [id, client] of Object.entries(this.clientMeta.clients)) {
+            if (!this.isRemoteClient(id)) {
+                clients[id] = client;
+            }
+        }
+        if (force || !isEqual(clients, this.publishedLocalClients)) {
+            this.publishedLocalClients = cloneDeep(clients);
+            this.backplane.publish(this._id, { type: "meta", clients });
+        }
+    }
+
+    /**
+     * Replaces the clients of another node in the server meta
+     * @param nodeID The ID of the other node
+     * @param clients The clients connected to the other node
+     */
+    private setRemoteClients(nodeID: string, clients: ServerMeta["clients"]): void {
+        const previous = this.remoteClients.get(nodeID) ?? {};
+        if (Object.keys(clients).length > 0) {
+            this.remoteClients.set(nodeID, clients);
+        } else {
+            this.remoteClients.delete(nodeID);
+        }
+        const deleted: Record<string, null> = {};
+        for (const id of Object.keys(previous)) {
+            if (clients[id] === undefined) {
+                deleted[id] = null;
+            }
+        }
+        const diff: DiffResult<ServerMeta, ServerMeta> = { modified: { clients } };
+        if (Object.keys(deleted).length > 0) {
+            diff.deleted = { clients: deleted };
+        }
+        this.pubDiff(serverMetaChannel, diff);
+    }
+
+    /**
+     * Forwards an encoded service message to the backplane, if any destination is connected to another node
+     * @param event The event name
+     * @param data The encoded message
+     * @param dest The destination clients
+     */
+    private forwardToBackplane(event: string, data: any, dest: DestType): void {
+        if (this.backplane === undefined) {
+            return;
+        }
+        const remoteDest = dest === "*" ? "*" : dest.filter(clientID => this.isRemoteClient(clientID));
+        if (remoteDest === "*" || remoteDest.length > 0) {
+            this.backplane.publish(this._id, { type: "service", event, data, dest: remoteDest });
+        }
+    }
+
+    /**
+     * Publishes a topic message accepted by this node to the backplane
+     * @param channel The channel of the message
+     * @param msg The topic message
+     */
+    private publishTopicToBackplane<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>): void {
+        // Server meta is merged through meta messages instead, since every node has its own
+        if (this.backplane === undefined || channel.meta === true || channel.local === true) {
+            return;
+        }
+        this.backplane.publish(this._id, { type: "topic", event: this.getChannelName(channel), msg });
+    }
+
+    /**
+     * Handles a message from another node
+     * @param message The message
+     * @param nodeID The ID of the node that sent it
+     */
+    private onBackplaneMessage(message: BackplaneMessage, nodeID: string): void {
+        if (message.type === "sync") {
+            this.publishLocalClients(true);
+            this.initializedTopicChannels.forEach((channel) => {
+                this.publishTopicToBackplane(channel, this.wrapFullTopicMessage(channel));
+            });
+        } else if (message.type === "meta") {
+            this.setRemoteClients(nodeID, message.clients);
+        } else if (message.type === "topic") {
+            const channel = [...this.initializedTopicChannels].find(channel => this.getChannelName(channel) === message.event);
+            if (channel === undefined) {
+                return; // Not handled by this node
+            }
+            if (!this.acceptSequence(channel, message.msg)) {
+                return;
+            }
+            const msg = this.migrateTopicMessage(channel, message.msg);
+            if (msg === undefined) {
+                return;
+            }
+            // Apply locally without relaying, then send to all sockets of this node
+            this.onReceiveTopicMessage(channel, msg);
+            this.relayTopicMessage(channel, this.numberRelayedMessage(channel, msg));
+        } else if (message.type === "transaction") {
+            const parts: TransactionPart[] = [];
+            for (const { event, msg } of message.parts) {
+                const channel = [...this.initializedTopicChannels].find(channel => this.getChannelName(channel) === event);
+                if (channel !== undefined && this.acceptSequence(channel, msg)) {
+                    const migrated = this.migrateTopicMessage(channel, msg);
+                    if (migrated === undefined) {
+                        return; // Applying only part of the transaction would break its atomicity
+                    }
+                    parts.push({ channel, msg: migrated });
+                }
+            }
+            if (parts.length === 0) {
+                return; // Not handled by this node
+            }
+            // Apply locally without relaying, then send to all sockets of this node
+            if (this.onReceiveTransaction(parts)) {
+                this.relayTransaction(parts.map(({ channel, msg }) => ({ channel, msg: this.numberRelayedMessage(channel, msg) })), undefined, false);
+            }
+        } else if (message.type === "service") {
+            const handler = this.channelHandlers.get(message.event);
+            if (handler === undefined) {
+                return; // Not handled by this node
+            }
+            if (message.dest === "*") {
+                handler(message.data);
+                this.socket.emit(message.event, message.data);
+            } else {
+                if (message.dest.includes(this._id)) {
+                    handler(message.data);
+                }
+                for (const socket of this.getSockets(message.dest)) {
+                    socket.emit(message.event, message.data);
+                }
+            }
+        }
+    }
+
     /**
      * Relays a message to destination clients
      * @param channel The channel to relay the message on
@@ -208,30 +986,17 @@ export class TopicServer extends BaseClient<IServerClient> {
      * @param dest The destination clients
      */
     protected relay<T extends RequestType, U extends MessageMeta>(channel: Channel<T>, msg: U, senderSocket: IServerClient, dest: DestType = "*"): void {
+        const data = this.options.codec.encode(msg);
+        this.forwardToBackplane(this.getChannelName(channel), data, dest);
         if (dest === "*") {
             // Broadcast to all sockets
-            senderSocket.broadcast.emit(this.getChannelName(channel), msg);
+            senderSocket.broadcast.emit(this.getChannelName(channel), data);
         } else {
             // Find all sockets required
-            let sockets: IServerClient[] = [];
-            for (const clientID of dest) {
-                const socketID = this.clientToSocketID.get(clientID);
-                if (socketID) {
-                    const socket = this.clientSockets.get(socketID);
-                    if (socket) {
-                        sockets.push(socket);
-                    } else {
-                        throw new Error(`Client ${clientID} has socket ID ${socketID} but socket not found`);
-                    }
-                } else if (clientID === this._id) {
-                    // Ignore server
-                } else {
-                    console.warn(`Client ${clientID} not found`);
-                }
-            }
+            let sockets: IServerClient[] = this.getSockets(dest);
             // Send message to all sockets
             for (const socket of sockets) {
-                socket.emit(this.getChannelName(channel), msg);
+                socket.emit(this.getChannelName(channel), data);
             }
         }
     }
@@ -243,12 +1008,27 @@ export class TopicServer extends BaseClient<IServerClient> {
      * @param sender The socket of the sender
      */
     protected onReceiveTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, sender?: IServerClient): void {
-        super.onReceiveTopicMessage(channel, msg, sender);
+        if (sender !== undefined && !(this.enforceSchema(channel, msg, sender) && this.authorizeTopicMessage(channel, msg, sender))) {
+            return; // Dropped instead of applied and forwarded
+        }
+        const previousTopic = this.topicMap.get(this.getChannelName(channel));
+        const applied = this.applyTopicMessage(channel, msg, sender);
         // TODO: Forwards topic message to all clients except sender
         if (sender !== undefined) { // When sender is undefined, it is the server itself
-            sender.broadcast.emit(this.getChannelName(channel), msg);
+            const relayed = this.numberRelayedMessage(channel, msg);
+            this.relayTopicMessage(channel, relayed, sender);
+            this.publishTopicToBackplane(channel, relayed);
+            if (msg.ack === true && msg.seq !== undefined) {
+                if (applied) {
+                    const ack: TopicAck = { channel: channel.name, seq: msg.seq.number };
+                    sender.emit("topicAck", ack);
+                } else {
+                    // Relayed, but not applied here, so the sender has to roll the changes back
+                    this.rejectUnappliedTopicMessage(channel, msg, previousTopic, sender);
+                }
+            }
             if (this.options.logTopics) {
-                console.log(`📡 Received topic message on ${channel.name} from ${msg.source} and forwarded to all clients except sender`);
+                console.log(`📡 Received topic message on ${channel.name} from ${msg.source} and forwarded to all interested clients except sender`);
             }
         } else {
             if (this.options.logTopics) {
@@ -257,6 +1037,166 @@ export class TopicServer extends BaseClient<IServerClient> {
         }
     }
 
+    /**
+     * Applies a topic message to the topic of this node, without forwarding it
+     * @param channel The channel the message was received on
+     * @param msg The message received
+     * @param sender The socket of the sender
+     * @returns Whether all changes of the message were applied, which they are not if they would make a valid topic invalid, lost to newer changes or were array operations that did not fit
+     */
+    private applyTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, sender?: IServerClient): boolean {
+        const eventName = this.getChannelName(channel);
+        const previousTopic = this.topicMap.get(eventName);
+        super.onReceiveTopicMessage(channel, msg, sender);
+        if (sender !== undefined) {
+            this.claimTopicOwnership(channel, msg, previousTopic, sender);
+        }
+        this.trackEphemeralContributions(channel, msg, previousTopic, sender);
+        this.scheduleSnapshot(channel);
+        // Array operations that do not fit were made on arrays the sender no longer shares with the server
+        let arraysMismatched = false;
+        const merged = mergeDiff(previousTopic, msg as unknown as DiffResult<T, T>, () => arraysMismatched = true);
+        return !arraysMismatched && isEqual(this.topicMap.get(eventName), merged);
+    }
+
+    /**
+     * Rejects a topic message that was accepted but not applied, so its sender rolls the changes back
+     * @param channel The topic channel
+     * @param msg The topic message
+     * @param previousTopic The topic value before the message
+     * @param sender The socket of the sender
+     */
+    private rejectUnappliedTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, previousTopic: JSONValue | undefined, sender: IServerClient): void {
+        const parse = channel.schema.safeParse(mergeDiff(previousTopic, msg as unknown as DiffResult<T, T>));
+        if (!parse.success) {
+            this.rejectTopicMessage(sender, {
+                channel: channel.name,
+                reason: "invalid",
+                message: `Diff from ${msg.source} would make ${channel.name} invalid: ${parse.error.issues.map(issue => `/${issue.path.join("/")}: ${issue.message}`).join(", ")}`,
+                seq: msg.seq?.number,
+                issues: parse.error.issues,
+            });
+        } else {
+            this.rejectTopicMessage(sender, {
+                channel: channel.name,
+                reason: "superseded",
+                message: `Changes from ${msg.source} to ${channel.name} lost to newer changes`,
+                seq: msg.seq?.number,
+            });
+        }
+    }
+
+    /**
+     * The server holds the whole topic from the start, so it collects deletions without waiting for a full topic
+     */
+    protected createLWWTopicState(): LWWTopicState {
+        return new LWWTopicState(true);
+    }
+
+    /**
+     * Converts a topic message made in another schema version into the version of the channel, rejecting it if that fails
+     * @param channel The channel object that the message was received on
+     * @param msg The message
+     * @param sender The socket of the sender, if it was received from a client
+     * @returns The message in the version of the channel, or undefined if it could not be migrated
+     */
+    protected migrateTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>, sender?: IServerClient): WithMeta<TopicMessage> | undefined {
+        const migrated = super.migrateTopicMessage(channel, msg, sender);
+        if (migrated === undefined && sender !== undefined) {
+            this.rejectTopicMessage(sender, {
+                channel: channel.name,
+                reason: "invalid",
+                message: `Diff from ${msg.source} could not be migrated from version ${msg.version ?? 1} to ${channel.version ?? 1} of ${channel.name}`,
+                seq: msg.seq?.number,
+            });
+        }
+        return migrated;
+    }
+
+    /**
+     * Handle a transaction received from a client, dropping all of it if any of its parts is rejected
+     * @param parts The parts of the transaction
+     * @param sender The socket of the sender
+     */
+    protected onReceiveTransaction(parts: TransactionPart[], sender?: IServerClient): boolean {
+        if (sender !== undefined) {
+            const rejected = parts.find(({ channel, msg }) => !(this.enforceSchema(channel, msg, sender) && this.authorizeTopicMessage(channel, msg, sender)));
+            if (rejected !== undefined) {
+                // The other parts are dropped along with it, so the sender has to resync those topics as well
+                parts.filter(part => part !== rejected).forEach(({ channel, msg }) => this.rejectTopicMessage(sender, {
+                    channel: channel.name,
+                    reason: "aborted",
+                    message: `Transaction aborted because its changes to ${rejected.channel.name} were rejected`,
+                    seq: msg.seq?.number,
+                }));
+                return false;
+            }
+        }
+        if (!super.onReceiveTransaction(parts, sender)) {
+            // Dropped for making a topic invalid, which the sender has to resync from
+            if (sender !== undefined) {
+                parts.forEach(({ channel, msg }) => this.rejectTopicMessage(sender, {
+                    channel: channel.name,
+                    reason: "aborted",
+                    message: "Transaction aborted because it would make a topic invalid",
+                    seq: msg.seq?.number,
+                }));
+            }
+            return false;
+        }
+        if (sender !== undefined) {
+            this.relayTransaction(parts.map(({ channel, msg }) => ({ channel, msg: this.numberRelayedMessage(channel, msg) })), sender);
+            if (this.options.logTopics) {
+                console.log(`📡 Received transaction on ${parts.map(({ channel }) => channel.name).join(", ")} from ${parts[0]?.msg.source} and forwarded to all interested clients except sender`);
+            }
+        }
+        return true;
+    }
+
+    protected applyTransactionPart(part: TransactionPart, sender?: IServerClient): void {
+        this.applyTopicMessage(part.channel, part.msg, sender);
+    }
+
+    protected sendTransaction(parts: TransactionPart[]): void {
+        if (parts.length === 0) {
+            return;
+        }
+        parts.forEach(({ channel, msg }) => this.tapMessage(channel, msg, "out"));
+        this.relayTransaction(parts);
+    }
+
+    /**
+     * Sends a transaction to all sockets interested in any of its channels, and to the other nodes
+     * @param parts The parts of the transaction
+     * @param except The socket not to send to, e.g. the sender of the transaction
+     * @param toBackplane Whether to publish the transaction to the backplane, false if it came from there
+     */
+    private relayTransaction(parts: TransactionPart[], except?: IServerClient, toBackplane: boolean = true): void {
+        const data = this.encodeTransaction(parts);
+        let legacyData: any;
+        const events = parts.map(({ channel }) => this.getChannelName(channel));
+        this.clientSockets.forEach((socket) => {
+            const interests = this.interests.get(socket.id);
+            if (socket !== except && (interests === undefined || events.some(event => !event.startsWith(channelPrefix + topicPrefix + userPrefix) || interests.has(event)))) {
+                if (parts.every(({ msg }) => msg.arrays === undefined) || this.supportsArrayDiff(socket)) {
+                    socket.emit("transaction", data);
+                } else {
+                    // Array operations are replaced by the whole arrays, which are only known once the transaction is applied
+                    legacyData = legacyData ?? this.encodeTransaction(parts.map(({ channel, msg }) => ({
+                        channel,
+                        msg: inlineArrayDiff(msg as WithMeta<TopicMessage> & DiffResult<JSONValue, JSONValue>, this.topicMap.get(this.getChannelName(channel))),
+                    })));
+                    socket.emit("transaction", legacyData);
+                }
+            }
+        });
+        // Server meta is merged through meta messages instead, since every node has its own
+        const shared = parts.filter(({ channel }) => channel.meta !== true && channel.local !== true);
+        if (toBackplane && this.backplane !== undefined && shared.length > 0) {
+            this.backplane.publish(this._id, { type: "transaction", parts: shared.map(({ channel, msg }) => ({ event: this.getChannelName(channel), msg })) });
+        }
+    }
+
     protected onReceiveRequestFullTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<{}>, sender?: IServerClient | undefined): void {
         if (this.options.logTopics) {
             if (sender !== undefined) {
@@ -268,15 +1208,17 @@ export class TopicServer extends BaseClient<IServerClient> {
         super.onReceiveRequestFullTopicMessage(channel, msg, sender);
     }
 
-    protected sendDiffTopic<T extends JSONValue>(channel: TopicChannel<T>, diff: DiffResult<T, T>, source?: string): void {
+    protected sendTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, msg: WithMeta<TopicMessage>): void {
         if (this.options.logTopics) {
-            if (source !== undefined) {
-                console.log(`⏩ Topic diff on ${channel.name} forwarded to all clients from ${source}: ${JSON.stringify(diff)}`);
+            const diff = { modified: msg.modified, deleted: msg.deleted };
+            if (msg.source !== this._id) {
+                console.log(`⏩ Topic diff on ${channel.name} forwarded to all clients from ${msg.source}: ${JSON.stringify(diff)}`);
             } else {
                 console.log(`📢 Topic diff on ${channel.name} sent from server to all clients: ${JSON.stringify(diff)}`);
             }
         }
-        super.sendDiffTopic(channel, diff, source);
+        super.sendTopicMessage(channel, msg);
+        this.publishTopicToBackplane(channel, msg);
     }
 
     protected sendFullTopic<T extends JSONValue>(channel: TopicChannel<T>, source?: string): void {
@@ -347,6 +1289,7 @@ export class TopicServer extends BaseClient<IServerClient> {
             // If channel is a topic channel, run initTopicChannel
             if (channel.mode === "topic") {
                 this.initTopicChannel(channel);
+                this.restoreTopic(channel);
             }
             // If channel is a service channel, run initServiceChannel
             if (channel.mode === "service") {
@@ -0,0 +1,13 @@
+// CBOR codec, in its own entry point so cbor-x is only needed by those who use it
+
+import { encode, decode } from "cbor-x";
+import { Codec, toUint8Array } from "../utils/Codec";
+
+/**
+ * CBOR codec, encoding messages into binary
+ */
+export const cborCodec: Codec = {
+    name: "cbor",
+    encode: (message: any) => encode(message),
+    decode: (data: any) => decode(toUint8Array(data)),
+};
@@ -0,0 +1,14 @@
+// MessagePack codec, in its own entry point so @msgpack/msgpack is only needed by those who use it
+
+import { encode, decode } from "@msgpack/msgpack";
+import { Codec, toUint8Array } from "../utils/Codec";
+
+/**
+ * MessagePack codec, encoding messages into binary
+ */
+export const msgpackCodec: Codec = {
+    name: "msgpack",
+    // Undefined properties must be skipped rather than encoded as nil, since null has meaning in diffs
+    encode: (message: any) => encode(message, { ignoreUndefined: true }),
+    decode: (data: any) => decode(toUint8Array(data)),
+};
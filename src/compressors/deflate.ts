@@ -0,0 +1,13 @@
+// Deflate compressor for Node, in its own entry point so browser bundles do not pull in zlib
+
+import { deflateSync, inflateSync } from "zlib";
+import { Compressor } from "../utils/Compression";
+
+/**
+ * Deflate compressor using zlib
+ */
+export const deflateCompressor: Compressor = {
+    algorithm: "deflate",
+    compress: (serialized: string) => deflateSync(Buffer.from(serialized, "utf8")).toString("base64"),
+    decompress: (payload: string) => inflateSync(Buffer.from(payload, "base64")).toString("utf8"),
+};
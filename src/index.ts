@@ -1,9 +1,22 @@
+export * from "./Backplane";
 export * from "./BaseClient";
+export * from "./Bridge";
 export * from "./Client";
 export * from "./metaChannels";
+export * from "./Persistence";
 export * from "./Server";
 export * from "./Messages";
 export * from "./utils/Channel"
+export * from "./utils/Codec"
 export * from "./utils/Compare"
+export * from "./utils/Compression"
+export * from "./utils/Convergence"
 export * from "./utils/createChannel"
-export * from "./utils/JSON"
\ No newline at end of file
+export * from "./utils/History"
+export * from "./utils/JSON"
+export * from "./utils/JSONPatch"
+export * from "./utils/Migration"
+export * from "./utils/Permissions"
+export * from "./transports/Loopback"
+export * from "./transports/WebSocket"
+export * from "./transports/MessagePort"
@@ -8,11 +8,19 @@ export const serverMetaSchema = z.object({
             schema: z.object({}).passthrough(),
             responseSchema: z.object({}).passthrough().optional(),
         })),
+        via: z.string().optional(), // ID of the client that the client is reachable through, for clients behind a TopicBridge
+        features: z.array(z.string()).optional(), // Optional wire features the client supports, see clientFeatures
     }))
 });
 
 export type ServerMeta = z.infer<typeof serverMetaSchema>;
 
+/**
+ * Optional wire features declared by clients and servers in their server meta entry, so peers only send them messages they understand
+ * - "arrays": element level array operations in topic messages, see {@link TopicChannelOptions.arrayDiff}
+ */
+export const clientFeatures = ["arrays"];
+
 export const serverMetaChannel = makeChannelMeta(createTopic(
     "serverMeta",
     serverMetaSchema
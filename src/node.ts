@@ -0,0 +1,5 @@
+// Entry point for the parts of webtopics that depend on Node modules, kept out of the main entry point for browser bundles
+
+export * from "./Bag";
+export * from "./FileTopicPersistence";
+export * from "./compressors/deflate";
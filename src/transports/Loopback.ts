@@ -0,0 +1,262 @@
+// In-memory transport for running a TopicServer and TopicClients in the same process without sockets
+
+import { v4 as uuidv4 } from 'uuid';
+import { IClient } from "../Client";
+import { IServer, IServerClient } from "../Server";
+import { TransportEmitter } from "./TransportEmitter";
+
+/**
+ * Simulates serialization over the wire, so that receivers never share object references with senders
+ * @param data The data to copy
+ * @returns A deep copy of the data, with undefined properties stripped like JSON would
+ */
+function wireCopy(data: any): any {
+    if (data === undefined) {
+        return undefined;
+    }
+    if (ArrayBuffer.isView(data)) {
+        // Binary data, e.g. from a binary codec
+        return new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+    }
+    return JSON.parse(JSON.stringify(data));
+}
+
+/**
+ * Schedules a function to be called asynchronously, preserving the order of scheduled calls
+ * @param fn The function to call
+ */
+function deliver(fn: () => void): void {
+    setTimeout(fn, 0);
+}
+
+/**
+ * Server side of a loopback connection, handed to {@link TopicServer} on "connection"
+ */
+export class LoopbackServerClient implements IServerClient {
+    /**
+     * The socket ID, unique per connection
+     */
+    readonly id: string = uuidv4();
+    /**
+     * Emitter for events received from the client
+     */
+    private events = new TransportEmitter();
+    /**
+     * Emits to all other sockets on the same server
+     */
+    readonly broadcast: { emit: (event: string, data: any) => void };
+
+    /**
+     * Creates a new server side socket
+     * @param server The server the socket belongs to
+     * @param client The client on the other end of the connection
+     */
+    constructor(private server: LoopbackServer, private client: LoopbackClient) {
+        this.broadcast = {
+            emit: (event: string, data: any) => {
+                this.server.sockets.forEach(socket => {
+                    if (socket !== this) {
+                        socket.emit(event, data);
+                    }
+                });
+            }
+        };
+    }
+
+    emit(event: string, data: any): void {
+        const copy = wireCopy(data);
+        deliver(() => {
+            // Drop messages that arrive after the connection closed
+            if (this.server.sockets.get(this.id) === this) {
+                this.client.receive(event, copy);
+            }
+        });
+    }
+
+    on(event: string, listener: (data: any) => void): void {
+        this.events.on(event, listener);
+    }
+
+    onAny(listener: (event: string, data: any) => void): void {
+        this.events.onAny(listener);
+    }
+
+    disconnect(): void {
+        // Deliver after pending messages, like socket.io does
+        deliver(() => {
+            if (this.server.sockets.get(this.id) === this) {
+                this.client.disconnect();
+            }
+        });
+    }
+
+    /**
+     * Dispatches an event sent by the client to the listeners of this socket
+     * @param event The event name
+     * @param data The data sent
+     */
+    receive(event: string, data?: any): void {
+        this.events.dispatch(event, data);
+    }
+}
+
+/**
+ * In-memory server implementing {@link IServer}, for use with {@link TopicServer}
+ */
+export class LoopbackServer implements IServer {
+    /**
+     * Map between socket IDs and connected sockets
+     */
+    readonly sockets: Map<string, LoopbackServerClient> = new Map();
+    /**
+     * Emitter for server level events, namely "connection"
+     */
+    private events = new TransportEmitter();
+
+    on(event: string, listener: (socket: IServerClient) => void): void {
+        this.events.on(event, listener);
+    }
+
+    /**
+     * Emits an event to all connected sockets
+     * @param event The event name
+     * @param data The data to send
+     */
+    emit(event: string, data: any): void {
+        this.sockets.forEach(socket => socket.emit(event, data));
+    }
+
+    /**
+     * Creates a new client connected to this server
+     * @param autoConnect Whether to connect immediately (asynchronously), like socket.io does by default
+     * @returns The client, to be passed to {@link TopicClient}
+     */
+    createClient(autoConnect: boolean = true): LoopbackClient {
+        const client = new LoopbackClient(this);
+        if (autoConnect) {
+            client.connect();
+        }
+        return client;
+    }
+
+    /**
+     * Registers a new connection from a client, should only be called by {@link LoopbackClient}
+     * @param client The connecting client
+     * @returns The server side socket of the connection
+     */
+    accept(client: LoopbackClient): LoopbackServerClient {
+        const socket = new LoopbackServerClient(this, client);
+        this.sockets.set(socket.id, socket);
+        this.events.dispatch("connection", socket);
+        return socket;
+    }
+
+    /**
+     * Removes a connection, should only be called by {@link LoopbackClient}
+     * @param socket The server side socket of the connection
+     */
+    drop(socket: LoopbackServerClient): void {
+        if (this.sockets.delete(socket.id)) {
+            socket.receive("disconnect");
+        }
+    }
+
+    /**
+     * Disconnects all connected clients
+     */
+    close(): void {
+        this.sockets.forEach(socket => socket.disconnect());
+    }
+}
+
+/**
+ * In-memory client implementing {@link IClient}, for use with {@link TopicClient}
+ */
+export class LoopbackClient implements IClient {
+    /**
+     * Emitter for events received from the server
+     */
+    private events = new TransportEmitter();
+    /**
+     * The server side socket, undefined when not connected
+     */
+    private socket?: LoopbackServerClient;
+    /**
+     * Whether a connection is scheduled but not yet established
+     */
+    private connecting: boolean = false;
+    /**
+     * Events emitted while disconnected, sent once connected like socket.io does
+     */
+    private sendBuffer: Array<[string, any]> = [];
+
+    /**
+     * Creates a new client, use {@link LoopbackServer.createClient} instead
+     * @param server The server to connect to
+     */
+    constructor(private server: LoopbackServer) {}
+
+    /**
+     * Whether the client is currently connected
+     */
+    get connected(): boolean {
+        return this.socket !== undefined;
+    }
+
+    /**
+     * Connects to the server asynchronously, emitting "connect" and then flushing buffered events
+     */
+    connect(): void {
+        if (this.connected || this.connecting) return;
+        this.connecting = true;
+        deliver(() => {
+            if (!this.connecting) return; // Disconnected before the connection was established
+            this.connecting = false;
+            this.socket = this.server.accept(this);
+            this.events.dispatch("connect");
+            const buffered = this.sendBuffer;
+            this.sendBuffer = [];
+            buffered.forEach(([event, data]) => this.emit(event, data));
+        });
+    }
+
+    on(event: string, listener: (data: any) => void): void {
+        this.events.on(event, listener);
+    }
+
+    emit(event: string, data: any): void {
+        const socket = this.socket;
+        if (socket === undefined) {
+            this.sendBuffer.push([event, wireCopy(data)]);
+            return;
+        }
+        const copy = wireCopy(data);
+        deliver(() => {
+            // Drop messages that arrive after the connection closed
+            if (this.server.sockets.get(socket.id) === socket) {
+                socket.receive(event, copy);
+            }
+        });
+    }
+
+    disconnect(): void {
+        this.connecting = false;
+        this.sendBuffer = [];
+        const socket = this.socket;
+        if (socket === undefined) return;
+        this.socket = undefined;
+        this.server.drop(socket);
+        this.events.dispatch("disconnect");
+    }
+
+    /**
+     * Dispatches an event sent by the server to the listeners of this client
+     * @param event The event name
+     * @param data The data sent
+     */
+    receive(event: string, data: any): void {
+        if (this.connected) {
+            this.events.dispatch(event, data);
+        }
+    }
+}
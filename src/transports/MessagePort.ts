@@ -0,0 +1,202 @@
+// Adapters for running TopicServer and TopicClient over worker_threads MessagePorts, e.g. to connect worker threads to a server on the main thread
+
+import { v4 as uuidv4 } from 'uuid';
+import { IClient } from "../Client";
+import { IServer, IServerClient } from "../Server";
+import { TransportEmitter } from "./TransportEmitter";
+
+/**
+ * Minimal interface of a MessagePort, satisfied by the worker_threads MessagePort (including parentPort)
+ */
+export interface IMessagePort {
+    postMessage(value: any): void;
+    on(event: "message", listener: (value: any) => void): void;
+    on(event: "close", listener: () => void): void;
+    close(): void;
+}
+
+/**
+ * Envelope framing a socket.io style event in a single port message
+ */
+export type MessagePortEnvelope = {
+    event: string;
+    data?: any;
+};
+
+/**
+ * Subscribes to envelopes received on a port
+ * @param port The port to listen on
+ * @param listener The listener to call with each valid envelope
+ */
+function onEnvelope(port: IMessagePort, listener: (envelope: MessagePortEnvelope) => void): void {
+    port.on("message", (value: any) => {
+        if (typeof value?.event !== "string") {
+            console.warn("Invalid MessagePort envelope received: ", value);
+            return;
+        }
+        listener(value);
+    });
+}
+
+/**
+ * Server side of a MessagePort connection, handed to {@link TopicServer} on "connection"
+ */
+export class MessagePortServerClient implements IServerClient {
+    /**
+     * The socket ID, generated since ports do not have one
+     */
+    readonly id: string = uuidv4();
+    /**
+     * Emitter for events received from the client
+     */
+    private events = new TransportEmitter();
+    /**
+     * Emits to all other ports on the same server
+     */
+    readonly broadcast: { emit: (event: string, data: any) => void };
+
+    /**
+     * Creates a new server side socket
+     * @param server The adapter the socket belongs to
+     * @param port The server's end of the port pair
+     */
+    constructor(private server: MessagePortServerAdapter, private port: IMessagePort) {
+        this.broadcast = {
+            emit: (event: string, data: any) => {
+                this.server.sockets.forEach(socket => {
+                    if (socket !== this) {
+                        socket.emit(event, data);
+                    }
+                });
+            }
+        };
+        onEnvelope(this.port, (envelope) => this.events.dispatch(envelope.event, envelope.data));
+        this.port.on("close", () => {
+            if (this.server.sockets.delete(this.id)) {
+                this.events.dispatch("disconnect");
+            }
+        });
+    }
+
+    emit(event: string, data: any): void {
+        const envelope: MessagePortEnvelope = { event, data };
+        this.port.postMessage(envelope);
+    }
+
+    on(event: string, listener: (data: any) => void): void {
+        this.events.on(event, listener);
+    }
+
+    onAny(listener: (event: string, data: any) => void): void {
+        this.events.onAny(listener);
+    }
+
+    disconnect(): void {
+        this.port.close();
+    }
+}
+
+/**
+ * Adapter implementing {@link IServer} for MessagePorts, for use with {@link TopicServer}
+ *
+ * Ports are not discovered automatically; create a MessageChannel, add one end with {@link MessagePortServerAdapter.addPort}, and transfer the other end to the worker
+ */
+export class MessagePortServerAdapter implements IServer {
+    /**
+     * Map between socket IDs and connected ports
+     */
+    readonly sockets: Map<string, MessagePortServerClient> = new Map();
+    /**
+     * Emitter for server level events, namely "connection"
+     */
+    private events = new TransportEmitter();
+
+    on(event: string, listener: (socket: IServerClient) => void): void {
+        this.events.on(event, listener);
+    }
+
+    /**
+     * Emits an event to all connected ports
+     * @param event The event name
+     * @param data The data to send
+     */
+    emit(event: string, data: any): void {
+        this.sockets.forEach(socket => socket.emit(event, data));
+    }
+
+    /**
+     * Accepts a new connection on a port, whose other end should be wrapped by a {@link MessagePortClientAdapter}
+     * @param port The server's end of the port pair
+     * @returns The server side socket of the connection
+     */
+    addPort(port: IMessagePort): MessagePortServerClient {
+        const socket = new MessagePortServerClient(this, port);
+        this.sockets.set(socket.id, socket);
+        this.events.dispatch("connection", socket);
+        return socket;
+    }
+}
+
+/**
+ * Adapter implementing {@link IClient} for a MessagePort, for use with {@link TopicClient} in a worker thread
+ */
+export class MessagePortClientAdapter implements IClient {
+    /**
+     * Emitter for events received from the server
+     */
+    private events = new TransportEmitter();
+    /**
+     * Whether the port is connected, ports are connected from creation until closed
+     */
+    private connected: boolean = false;
+    /**
+     * Whether the port has been closed
+     */
+    private closed: boolean = false;
+    /**
+     * Events emitted before "connect" fired, sent afterwards like socket.io does
+     */
+    private sendBuffer: MessagePortEnvelope[] = [];
+
+    /**
+     * Creates a new adapter
+     * @param port The client's end of the port pair, e.g. parentPort or a transferred MessagePort
+     */
+    constructor(private port: IMessagePort) {
+        onEnvelope(this.port, (envelope) => this.events.dispatch(envelope.event, envelope.data));
+        this.port.on("close", () => {
+            this.closed = true;
+            if (this.connected) {
+                this.connected = false;
+                this.events.dispatch("disconnect");
+            }
+        });
+        // Defer so listeners can be attached first
+        setTimeout(() => {
+            if (this.closed) return;
+            this.connected = true;
+            this.events.dispatch("connect");
+            const buffered = this.sendBuffer;
+            this.sendBuffer = [];
+            buffered.forEach(envelope => this.port.postMessage(envelope));
+        }, 0);
+    }
+
+    on(event: string, listener: (data: any) => void): void {
+        this.events.on(event, listener);
+    }
+
+    emit(event: string, data: any): void {
+        const envelope: MessagePortEnvelope = { event, data };
+        if (this.connected) {
+            this.port.postMessage(envelope);
+        } else if (!this.closed) {
+            this.sendBuffer.push(envelope);
+        }
+    }
+
+    disconnect(): void {
+        this.sendBuffer = [];
+        this.port.close();
+    }
+}
@@ -0,0 +1,43 @@
+// Minimal event emitter used by the transports to emulate the socket.io event API
+
+/**
+ * Reserved events that are emitted by the transport itself, and are not passed to onAny listeners
+ */
+export const reservedEvents = ["connect", "disconnect", "connection"];
+
+/**
+ * Minimal event emitter shared by the transport sockets
+ */
+export class TransportEmitter {
+    /**
+     * Map of event names to their listeners
+     */
+    private listeners: Map<string, Set<(data: any) => void>> = new Map();
+    /**
+     * Listeners for all non-reserved events
+     */
+    private anyListeners: Set<(event: string, data: any) => void> = new Set();
+
+    on(event: string, listener: (data: any) => void): void {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, new Set());
+        }
+        this.listeners.get(event)!.add(listener);
+    }
+
+    onAny(listener: (event: string, data: any) => void): void {
+        this.anyListeners.add(listener);
+    }
+
+    /**
+     * Calls all listeners of an event synchronously
+     * @param event The event name
+     * @param data The data to pass to the listeners
+     */
+    dispatch(event: string, data?: any): void {
+        if (!reservedEvents.includes(event)) {
+            this.anyListeners.forEach(listener => listener(event, data));
+        }
+        this.listeners.get(event)?.forEach(listener => listener(data));
+    }
+}
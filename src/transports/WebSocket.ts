@@ -0,0 +1,256 @@
+// Adapters for running TopicServer and TopicClient over plain WebSockets (e.g. the ws package or the browser WebSocket)
+
+import { v4 as uuidv4 } from 'uuid';
+import { IClient } from "../Client";
+import { IServer, IServerClient } from "../Server";
+import { TransportEmitter } from "./TransportEmitter";
+
+/**
+ * Minimal interface of a WebSocket, satisfied by both the browser WebSocket and the ws package's WebSocket
+ */
+export interface IWebSocket {
+    readyState: number;
+    binaryType: string;
+    send(data: string | Uint8Array): void;
+    close(): void;
+    addEventListener(event: "open" | "close", listener: () => void): void;
+    addEventListener(event: "message", listener: (event: { data: any }) => void): void;
+}
+
+/**
+ * Minimal interface of a WebSocket server, satisfied by the ws package's WebSocketServer
+ */
+export interface IWebSocketServer {
+    on(event: "connection", listener: (socket: any) => void): void;
+}
+
+/**
+ * JSON envelope framing a socket.io style event in a single WebSocket message
+ *
+ * Binary data (e.g. from a binary codec) is instead sent as a binary message: a 2 byte big endian event name length, the UTF-8 event name, then the data
+ */
+export type WebSocketEnvelope = {
+    event: string;
+    data?: any;
+};
+
+/**
+ * The readyState of an open WebSocket
+ */
+const OPEN = 1;
+
+/**
+ * Frames an event into a WebSocket message
+ * @param event The event name
+ * @param data The data to send
+ * @returns The serialized envelope
+ */
+function frame(event: string, data: any): string | Uint8Array {
+    if (ArrayBuffer.isView(data)) {
+        const eventBytes = new TextEncoder().encode(event);
+        const message = new Uint8Array(2 + eventBytes.byteLength + data.byteLength);
+        new DataView(message.buffer).setUint16(0, eventBytes.byteLength);
+        message.set(eventBytes, 2);
+        message.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), 2 + eventBytes.byteLength);
+        return message;
+    }
+    const envelope: WebSocketEnvelope = { event, data };
+    return JSON.stringify(envelope);
+}
+
+/**
+ * Parses a WebSocket message into an envelope
+ * @param raw The raw message data, as a string for text messages or an ArrayBuffer / Buffer for binary messages
+ * @returns The envelope, or undefined if the message is not a valid envelope
+ */
+function unframe(raw: any): WebSocketEnvelope | undefined {
+    if (raw instanceof ArrayBuffer || ArrayBuffer.isView(raw)) {
+        const bytes = raw instanceof ArrayBuffer ? new Uint8Array(raw) : new Uint8Array(raw.buffer, raw.byteOffset, raw.byteLength);
+        if (bytes.byteLength < 2) {
+            console.warn("Invalid binary WebSocket message received: ", raw);
+            return undefined;
+        }
+        const eventLength = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(0);
+        return {
+            event: new TextDecoder().decode(bytes.subarray(2, 2 + eventLength)),
+            data: bytes.slice(2 + eventLength),
+        };
+    }
+    try {
+        const envelope = JSON.parse(raw);
+        if (typeof envelope?.event !== "string") {
+            console.warn("Invalid WebSocket envelope received: ", raw);
+            return undefined;
+        }
+        return envelope;
+    } catch (e) {
+        console.warn("Unparseable WebSocket message received: ", raw);
+        return undefined;
+    }
+}
+
+/**
+ * Server side of a WebSocket connection, handed to {@link TopicServer} on "connection"
+ */
+export class WebSocketServerClient implements IServerClient {
+    /**
+     * The socket ID, generated since plain WebSockets do not have one
+     */
+    readonly id: string = uuidv4();
+    /**
+     * Emitter for events received from the client
+     */
+    private events = new TransportEmitter();
+    /**
+     * Emits to all other sockets on the same server
+     */
+    readonly broadcast: { emit: (event: string, data: any) => void };
+
+    /**
+     * Creates a new server side socket
+     * @param server The adapter the socket belongs to
+     * @param socket The underlying WebSocket
+     */
+    constructor(private server: WebSocketServerAdapter, private socket: IWebSocket) {
+        this.socket.binaryType = "arraybuffer";
+        this.broadcast = {
+            emit: (event: string, data: any) => {
+                this.server.sockets.forEach(socket => {
+                    if (socket !== this) {
+                        socket.emit(event, data);
+                    }
+                });
+            }
+        };
+        this.socket.addEventListener("message", (message) => {
+            const envelope = unframe(message.data);
+            if (envelope !== undefined) {
+                this.events.dispatch(envelope.event, envelope.data);
+            }
+        });
+        this.socket.addEventListener("close", () => {
+            this.server.sockets.delete(this.id);
+            this.events.dispatch("disconnect");
+        });
+    }
+
+    emit(event: string, data: any): void {
+        if (this.socket.readyState === OPEN) {
+            this.socket.send(frame(event, data));
+        }
+    }
+
+    on(event: string, listener: (data: any) => void): void {
+        this.events.on(event, listener);
+    }
+
+    onAny(listener: (event: string, data: any) => void): void {
+        this.events.onAny(listener);
+    }
+
+    disconnect(): void {
+        this.socket.close();
+    }
+}
+
+/**
+ * Adapter implementing {@link IServer} on top of a WebSocket server, for use with {@link TopicServer}
+ */
+export class WebSocketServerAdapter implements IServer {
+    /**
+     * Map between socket IDs and connected sockets
+     */
+    readonly sockets: Map<string, WebSocketServerClient> = new Map();
+    /**
+     * Emitter for server level events, namely "connection"
+     */
+    private events = new TransportEmitter();
+
+    /**
+     * Creates a new adapter
+     * @param server The WebSocket server, e.g. a ws WebSocketServer
+     */
+    constructor(server: IWebSocketServer) {
+        server.on("connection", (socket: IWebSocket) => {
+            const client = new WebSocketServerClient(this, socket);
+            this.sockets.set(client.id, client);
+            this.events.dispatch("connection", client);
+        });
+    }
+
+    on(event: string, listener: (socket: IServerClient) => void): void {
+        this.events.on(event, listener);
+    }
+
+    /**
+     * Emits an event to all connected sockets
+     * @param event The event name
+     * @param data The data to send
+     */
+    emit(event: string, data: any): void {
+        this.sockets.forEach(socket => socket.emit(event, data));
+    }
+}
+
+/**
+ * Adapter implementing {@link IClient} on top of a WebSocket, for use with {@link TopicClient}
+ */
+export class WebSocketClientAdapter implements IClient {
+    /**
+     * Emitter for events received from the server
+     */
+    private events = new TransportEmitter();
+    /**
+     * Events emitted before the socket opened, sent once connected like socket.io does
+     */
+    private sendBuffer: Array<string | Uint8Array> = [];
+
+    /**
+     * Creates a new adapter
+     * @param socket The WebSocket, which may still be connecting
+     */
+    constructor(private socket: IWebSocket) {
+        this.socket.binaryType = "arraybuffer";
+        this.socket.addEventListener("open", () => this.onOpen());
+        this.socket.addEventListener("message", (message) => {
+            const envelope = unframe(message.data);
+            if (envelope !== undefined) {
+                this.events.dispatch(envelope.event, envelope.data);
+            }
+        });
+        this.socket.addEventListener("close", () => {
+            this.events.dispatch("disconnect");
+        });
+        if (this.socket.readyState === OPEN) {
+            // Already open, so the open event will never fire. Defer so listeners can be attached first.
+            setTimeout(() => this.onOpen(), 0);
+        }
+    }
+
+    /**
+     * Emits "connect" and then flushes buffered events
+     */
+    private onOpen(): void {
+        this.events.dispatch("connect");
+        const buffered = this.sendBuffer;
+        this.sendBuffer = [];
+        buffered.forEach(message => this.socket.send(message));
+    }
+
+    on(event: string, listener: (data: any) => void): void {
+        this.events.on(event, listener);
+    }
+
+    emit(event: string, data: any): void {
+        if (this.socket.readyState === OPEN) {
+            this.socket.send(frame(event, data));
+        } else {
+            this.sendBuffer.push(frame(event, data));
+        }
+    }
+
+    disconnect(): void {
+        this.sendBuffer = [];
+        this.socket.close();
+    }
+}
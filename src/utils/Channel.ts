@@ -1,5 +1,10 @@
 import { z } from "zod";
 import { JSONValue } from "./JSON";
+import { CompressionAlgorithm } from "./Compression";
+import { TopicHistoryOptions } from "./History";
+import { ConvergenceMode } from "./Convergence";
+import { TopicPermissions } from "./Permissions";
+import { TopicMigrations } from "./Migration";
 
 export const channelModeSchema = z.union([
     z.literal("topic"),
@@ -51,7 +56,109 @@ export const serviceChannelSchema = channelSchema.extend({
     responseSchema: z.unknown(),
 });
 
-export type TopicChannel<T extends JSONValue> = Channel<T> & {
+/**
+ * Compression settings for a topic channel
+ */
+export type TopicCompressionOptions = {
+    /**
+     * The compression algorithm
+     * @default "deflate"
+     */
+    algorithm?: CompressionAlgorithm;
+    /**
+     * Minimum size (in characters of serialized JSON) of a diff before it is compressed
+     * @default 16384
+     */
+    threshold?: number;
+}
+
+/**
+ * Rate limit for publishing to a topic channel; updates within a window are coalesced into one diff
+ */
+export type TopicThrottleOptions = {
+    /**
+     * Maximum number of messages sent per second
+     */
+    maxHz?: number;
+    /**
+     * Minimum interval between messages (in ms), takes precedence over {@link TopicThrottleOptions.maxHz}
+     */
+    minIntervalMs?: number;
+    /**
+     * Send the first update after a quiet period immediately, instead of at the end of its window
+     * @default true
+     */
+    leading?: boolean;
+    /**
+     * Send the updates coalesced during a window at its end; otherwise they are sent with the next update after it
+     * Always enabled when {@link TopicThrottleOptions.leading} is disabled, so updates are never held back indefinitely
+     * @default true
+     */
+    trailing?: boolean;
+}
+
+/**
+ * What the server does with topic diffs from clients that would make the topic fail its schema
+ * - "relay": apply them like any other client would (keeping the last valid value) and forward them to the other clients
+ * - "reject": drop them instead of forwarding them, and send a rejection to the sender
+ * - "quarantine": like "reject", but also drop every later diff from the sender on the channel, until it reconnects or is released
+ */
+export type SchemaEnforcement = "relay" | "reject" | "quarantine";
+
+/**
+ * Optional settings for a topic channel, shared by every client using the channel
+ */
+export type TopicChannelOptions = {
+    /**
+     * Compress large topic messages, such as full topic snapshots sent to joining clients
+     */
+    compression?: TopicCompressionOptions;
+    /**
+     * Keep a history of the diffs applied to the topic, for querying past values with {@link BaseClient.getTopicAt} and {@link BaseClient.getHistory}
+     */
+    history?: TopicHistoryOptions;
+    /**
+     * Send element level operations for changed arrays instead of the whole array; peers that do not declare support for them in the server meta get the whole array instead
+     * @default false
+     */
+    arrayDiff?: boolean;
+    /**
+     * Resolve concurrent updates so every client ends in the same state regardless of delivery order, instead of applying them in arrival order
+     * Arrays are treated as single values on these channels, even with {@link TopicChannelOptions.arrayDiff}
+     */
+    convergence?: ConvergenceMode;
+    /**
+     * Which clients may publish to the topic or subtrees of it, enforced by the server; can be overridden with {@link TopicServer.setTopicPermissions}
+     */
+    permissions?: TopicPermissions;
+    /**
+     * Limit how often updates published by a client are sent, coalescing the updates in between; the client's own subscribers still see every update immediately
+     */
+    throttle?: TopicThrottleOptions;
+    /**
+     * Keep the topic within each client, never sending or receiving it over the network
+     * @default false
+     */
+    local?: boolean;
+    /**
+     * What the server does with diffs that would make the topic fail its schema; with "reject" and "quarantine", every accepted diff must leave the topic valid
+     * Can be overridden with {@link TopicServer.setSchemaEnforcement}
+     * @default "relay"
+     */
+    schemaEnforcement?: SchemaEnforcement;
+    /**
+     * Version of the schema, sent along with every topic message; messages of other versions are migrated to it before they are applied
+     * @default 1
+     */
+    version?: number;
+    /**
+     * Migrations between the versions of the schema, keyed by the version they migrate to from the version before it
+     * Clients of different versions can share the topic as long as the migrations between their versions are declared on both sides
+     */
+    migrations?: TopicMigrations;
+}
+
+export type TopicChannel<T extends JSONValue> = Channel<T> & TopicChannelOptions & {
     mode: "topic";
 }
 
@@ -60,6 +167,25 @@ export type TopicChannel<T extends JSONValue> = Channel<T> & {
  */
 export type TopicChannelData<T extends TopicChannel<any>> = T extends TopicChannel<infer T> ? T : never;
 
+/**
+ * Extractor type for getting the data types of a list of topic channels
+ */
+export type TopicChannelValues<S extends TopicChannel<any>[]> = { [K in keyof S]: S[K] extends TopicChannel<infer T> ? T : never };
+
+/**
+ * Topic channel whose value is computed from other topic channels by the client deriving it with {@link BaseClient.derive}
+ */
+export type DerivedTopicChannel<T extends JSONValue, S extends TopicChannel<any>[] = TopicChannel<any>[]> = TopicChannel<T> & {
+    /**
+     * The channels the value is computed from
+     */
+    sources: [...S];
+    /**
+     * Computes the value from the values of the sources, in the same order
+     */
+    compute: (...values: TopicChannelValues<S>) => T;
+}
+
 export const topicChannelSchema = channelSchema.extend({
     mode: z.literal("topic"),
 });
\ No newline at end of file
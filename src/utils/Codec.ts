@@ -0,0 +1,44 @@
+/**
+ * A wire codec for encoding and decoding channel messages
+ */
+export interface Codec {
+    /**
+     * Identifier of the codec, negotiated during the handshake so mismatched peers fail clearly
+     */
+    name: string;
+    /**
+     * Encodes a wrapped message into the form sent over the wire
+     */
+    encode(message: any): any;
+    /**
+     * Decodes data received from the wire into a wrapped message
+     */
+    decode(data: any): any;
+}
+
+/**
+ * Converts binary data received from a transport into a Uint8Array, for codecs decoding binary
+ * @param data A Uint8Array (including Node Buffers), an ArrayBuffer, or another ArrayBuffer view
+ * @returns The data as a Uint8Array
+ */
+export function toUint8Array(data: any): Uint8Array {
+    if (data instanceof Uint8Array) {
+        return data;
+    }
+    if (data instanceof ArrayBuffer) {
+        return new Uint8Array(data);
+    }
+    if (ArrayBuffer.isView(data)) {
+        return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    }
+    throw new Error(`Expected binary data, received ${typeof data}`);
+}
+
+/**
+ * Default codec, passing messages as plain objects and leaving serialization to the transport
+ */
+export const jsonCodec: Codec = {
+    name: "json",
+    encode: (message: any) => message,
+    decode: (data: any) => data,
+};
@@ -5,12 +5,13 @@ type Primitive<U> = string | number | boolean | null | Array<U>;
 
 /**
  * Makes all properties of an object null recursively, except for array properties, which will be replaced by one null element
+ * Object properties can also be null as a whole, e.g. to delete entries of a record
  */
 export type RecursiveNull<T> =
     // If T is a primitive, return null
     T extends Primitive<infer U> ? null :
-    // If T is an object, make all properties null recursively
-    T extends object ? { [K in keyof T]: RecursiveNull<T[K]> } :
+    // If T is an object, make all properties null recursively, or null as a whole
+    T extends object ? { [K in keyof T]: RecursiveNull<T[K]> | null } :
     // If T is anything else, remove it
     never;
 
@@ -25,6 +26,33 @@ export type RecursivePartial<T> =
     // If T is anything else, remove it
     never;
 
+/**
+ * An element level operation on an array, applied in order with indices referring to the array as left by the previous operation
+ * Operations changing the length or order of the array carry the length it had before them (and moves the moved element),
+ * so they are skipped when applied twice or to another version of the array, instead of corrupting it
+ */
+export type ArrayOperation =
+    | { op: "insert"; index: number; values: JSONValue[]; length: number }
+    | { op: "remove"; index: number; count: number; length: number }
+    | { op: "replace"; index: number; value: JSONValue }
+    | { op: "move"; from: number; to: number; value: JSONValue; length: number };
+
+/**
+ * Element level operations on the arrays within a value, mirroring the value's structure down to each changed array
+ */
+export type ArrayDiff = ArrayOperation[] | { [key: string]: ArrayDiff };
+
+/**
+ * Options for {@link diff}
+ */
+export type DiffOptions = {
+    /**
+     * Diff arrays element by element into {@link DiffResult.arrays}, instead of treating them as atomic values
+     * @default false
+     */
+    arrays?: boolean;
+}
+
 /**
  * The result of a diff operation showing whats modified (including new properties), and whats deleted
  */
@@ -38,6 +66,10 @@ export type DiffResult<T extends JSONValue, U extends JSONValue> = {
      * Null values for where properties should be deleted
      */
     deleted?: RecursivePartial<RecursiveNull<T>>;
+    /**
+     * Element level operations on arrays, applied after deleted and modified (only produced when diffing with {@link DiffOptions.arrays})
+     */
+    arrays?: ArrayDiff;
 };
 
 /**
@@ -76,14 +108,57 @@ function primitiveEqual(a: JSONValue, b: JSONValue): boolean {
     }
 }
 
+/**
+ * Compares two arrays element by element, trimming the common prefix and suffix and describing the rest with as few operations as possible
+ * @returns The operations turning the old array into the new one (empty if they are equal)
+ */
+export function diffArray(oldArray: JSONValue[], newArray: JSONValue[]): ArrayOperation[] {
+    let start = 0;
+    while (start < oldArray.length && start < newArray.length && isEqual(oldArray[start], newArray[start])) {
+        start++;
+    }
+    let oldEnd = oldArray.length;
+    let newEnd = newArray.length;
+    while (oldEnd > start && newEnd > start && isEqual(oldArray[oldEnd - 1], newArray[newEnd - 1])) {
+        oldEnd--;
+        newEnd--;
+    }
+    const oldMiddle = oldArray.slice(start, oldEnd);
+    const newMiddle = newArray.slice(start, newEnd);
+    if (oldMiddle.length === newMiddle.length && oldMiddle.length > 1) {
+        // A single element moved to the other end of the changed range, e.g. by reordering a list
+        const last = oldMiddle.length - 1;
+        if (isEqual(oldMiddle[0], newMiddle[last]) && isEqual(oldMiddle.slice(1), newMiddle.slice(0, last))) {
+            return [{ op: "move", from: start, to: start + last, value: oldMiddle[0], length: oldArray.length }];
+        }
+        if (isEqual(oldMiddle[last], newMiddle[0]) && isEqual(oldMiddle.slice(0, last), newMiddle.slice(1))) {
+            return [{ op: "move", from: start + last, to: start, value: oldMiddle[last], length: oldArray.length }];
+        }
+    }
+    const operations: ArrayOperation[] = [];
+    const overlap = Math.min(oldMiddle.length, newMiddle.length);
+    for (let i = 0; i < overlap; i++) {
+        if (!isEqual(oldMiddle[i], newMiddle[i])) {
+            operations.push({ op: "replace", index: start + i, value: newMiddle[i] });
+        }
+    }
+    if (newMiddle.length > overlap) {
+        operations.push({ op: "insert", index: start + overlap, values: newMiddle.slice(overlap), length: oldArray.length });
+    } else if (oldMiddle.length > overlap) {
+        operations.push({ op: "remove", index: start + overlap, count: oldMiddle.length - overlap, length: oldArray.length });
+    }
+    return operations;
+}
+
 /**
  * Compares two JSON values and returns the difference between them
  */
-export function diff<T extends JSONValue, U extends JSONValue>(oldValue: T, newValue: U): DiffResult<T, U> {
+export function diff<T extends JSONValue, U extends JSONValue>(oldValue: T, newValue: U, options: DiffOptions = {}): DiffResult<T, U> {
     const oldValueType = valueType(oldValue);
     const newValueType = valueType(newValue);
     let modified: RecursivePartial<T & U> | undefined;
     let deleted: RecursivePartial<RecursiveNull<T>> | undefined;
+    let arrays: ArrayDiff | undefined;
     // 9 possible cases
     // Undefined vs rest (3 cases)
     if (oldValueType === "undefined") {
@@ -102,7 +177,15 @@ export function diff<T extends JSONValue, U extends JSONValue>(oldValue: T, newV
             // If types are different (2 cases), return modified
             modified = newValue as RecursivePartial<T & U>;
         } else {
-            if (oldValueType === "primitive") {
+            if (options.arrays && Array.isArray(oldValue) && Array.isArray(newValue)) {
+                const operations = diffArray(oldValue, newValue);
+                if (operations.length >= newValue.length) {
+                    // Resending the whole array is no larger than the operations
+                    modified = newValue as RecursivePartial<T & U>;
+                } else if (operations.length > 0) {
+                    arrays = operations;
+                }
+            } else if (oldValueType === "primitive") {
                 if (!primitiveEqual(oldValue, newValue)) {
                     // If primitive and not equal, return modified
                     modified = newValue as RecursivePartial<T & U>;
@@ -117,7 +200,7 @@ export function diff<T extends JSONValue, U extends JSONValue>(oldValue: T, newV
                     // @ts-ignore - creating new property
                     const newSubValue = newValue[key as string];
                     // Recurse
-                    const subDiff = diff(oldSubValue, newSubValue);
+                    const subDiff = diff(oldSubValue, newSubValue, options);
                     // Merge the results
                     if (subDiff.modified !== undefined) {
                         // If there are any modified properties, add them to the modified object
@@ -137,11 +220,17 @@ export function diff<T extends JSONValue, U extends JSONValue>(oldValue: T, newV
                         // Add the deleted property to the deleted object
                         (deleted as any)[key] = subDiff.deleted as RecursivePartial<RecursiveNull<T>>;
                     }
+                    if (subDiff.arrays !== undefined) {
+                        if (arrays === undefined) {
+                            arrays = {};
+                        }
+                        (arrays as Record<string, ArrayDiff>)[key] = subDiff.arrays;
+                    }
                 }
             }
         }
     }
-    return { modified, deleted };
+    return arrays === undefined ? { modified, deleted } : { modified, deleted, arrays };
 }
 
 // A valid Diff should not have a property in both modified and deleted, but our function will be lenient and allow it by applying deleted first, then modified
@@ -149,11 +238,108 @@ export function diff<T extends JSONValue, U extends JSONValue>(oldValue: T, newV
 /**
  * Merges a diff result into an old value to get a new value
  */
-export function mergeDiff<T extends JSONValue, U extends JSONValue>(oldValue: T | undefined, diff: DiffResult<T, U>): any {
+export function mergeDiff<T extends JSONValue, U extends JSONValue>(oldValue: T | undefined, diff: DiffResult<T, U>, onArrayMismatch?: (path: string[]) => void): any {
     // @ts-ignore - temporary fix for type bug
     const deleted = recursiveDelete(oldValue, diff.deleted);
     const modified = recursiveMerge(deleted as JSONValue | undefined, diff.modified);
-    return modified;
+    return diff.arrays === undefined ? modified : applyArrayDiff(modified as JSONValue | undefined, diff.arrays, onArrayMismatch);
+}
+
+/**
+ * Applies element level array operations to a value, leaving parts that are not arrays where expected untouched
+ * The operations on an array stop at the first one that does not fit it, see {@link ArrayOperation}
+ * @param value The value to apply the operations to
+ * @param arrayDiff The operations
+ * @param onMismatch Called with the path of each array the operations do not fit, which then differs from the array of the peer that made them
+ * @param path The path of the value, for nested calls
+ */
+export function applyArrayDiff(value: JSONValue | undefined, arrayDiff: ArrayDiff, onMismatch?: (path: string[]) => void, path: string[] = []): JSONValue | undefined {
+    if (Array.isArray(arrayDiff)) {
+        if (!Array.isArray(value)) {
+            onMismatch?.(path);
+            return value;
+        }
+        const result = [...value];
+        for (const operation of arrayDiff) {
+            if (operation.op !== "replace" && (operation.length !== result.length || (operation.op === "move" && !isEqual(result[operation.from], operation.value)))) {
+                onMismatch?.(path);
+                break;
+            }
+            switch (operation.op) {
+                case "insert":
+                    result.splice(operation.index, 0, ...operation.values);
+                    break;
+                case "remove":
+                    result.splice(operation.index, operation.count);
+                    break;
+                case "replace":
+                    if (operation.index < result.length) {
+                        result[operation.index] = operation.value;
+                    } else {
+                        onMismatch?.(path);
+                    }
+                    break;
+                case "move":
+                    if (operation.from < result.length) {
+                        result.splice(operation.to, 0, ...result.splice(operation.from, 1));
+                    }
+                    break;
+            }
+        }
+        return result;
+    }
+    if (valueType(value) !== "object") {
+        onMismatch?.(path);
+        return value;
+    }
+    const result: JSONObject = { ...(value as JSONObject) };
+    for (const key of Object.keys(arrayDiff)) {
+        const subValue = applyArrayDiff(result[key], arrayDiff[key], onMismatch, [...path, key]);
+        if (subValue !== undefined) {
+            result[key] = subValue;
+        }
+    }
+    return result;
+}
+
+/**
+ * Replaces the element level array operations of a diff with the whole arrays they result in, for peers without support for them
+ * @param diffResult The diff, or a topic message
+ * @param newValue The value after applying the diff
+ * @returns An equivalent diff without array operations
+ */
+export function inlineArrayDiff<D extends DiffResult<JSONValue, JSONValue>>(diffResult: D, newValue: JSONValue | undefined): D {
+    if (diffResult.arrays === undefined) {
+        return diffResult;
+    }
+    let modified = cloneDeep(diffResult.modified) as JSONValue | undefined;
+    const inline = (arrays: ArrayDiff, path: string[]) => {
+        if (!Array.isArray(arrays)) {
+            Object.keys(arrays).forEach(key => inline(arrays[key], [...path, key]));
+            return;
+        }
+        const array = cloneDeep(getPath(newValue, path));
+        if (path.length === 0) {
+            modified = array;
+            return;
+        }
+        if (valueType(modified) !== "object") {
+            modified = {};
+        }
+        let parent = modified as JSONObject;
+        for (const key of path.slice(0, -1)) {
+            if (valueType(parent[key]) !== "object") {
+                parent[key] = {};
+            }
+            parent = parent[key] as JSONObject;
+        }
+        if (array !== undefined) {
+            parent[path[path.length - 1]] = array;
+        }
+    };
+    inline(diffResult.arrays, []);
+    const { arrays, ...rest } = diffResult;
+    return { ...rest, modified } as D;
 }
 
 /**
@@ -242,4 +428,89 @@ function recursiveMerge<T extends JSONValue, U extends JSONValue>(oldValue: T |
             return result;
         }
     }
-}
\ No newline at end of file
+}
+/**
+ * The type of the value at a path of property names within a value of type T
+ */
+export type PathValue<T, P extends readonly string[]> =
+    P extends readonly [] ? T :
+    P extends readonly [infer K extends string, ...infer Rest extends string[]] ?
+        // Optional properties along the path make the value possibly undefined
+        K extends keyof NonNullable<T> ? PathValue<NonNullable<T>[K], Rest> | (T extends undefined | null ? undefined : never) : undefined :
+    JSONValue | undefined;
+
+/**
+ * Gets the value at a path of property names
+ * @returns The value, or undefined if the path does not exist
+ */
+export function getPath(value: JSONValue | undefined, path: readonly string[]): JSONValue | undefined {
+    let current = value;
+    for (const key of path) {
+        if (valueType(current) !== "object" && !Array.isArray(current)) {
+            return undefined;
+        }
+        current = (current as JSONObject)[key];
+    }
+    return current;
+}
+
+/**
+ * Follows a path into one of the trees of a diff, stopping early where the tree holds a value for a whole parent of the path
+ * @returns The node at the end of the path, the value for a parent along with the remaining path, or undefined if the path is untouched
+ */
+function followPath<N>(tree: N | undefined, path: readonly string[]): { node: N, rest: readonly string[] } | undefined {
+    let node = tree;
+    for (let i = 0; i < path.length; i++) {
+        if (node === undefined) {
+            return undefined;
+        }
+        if (valueType(node as JSONValue) !== "object") {
+            return { node, rest: path.slice(i) };
+        }
+        node = (node as Record<string, N | undefined>)[path[i]];
+    }
+    return node === undefined ? undefined : { node, rest: [] };
+}
+
+/**
+ * Checks whether applying a diff can change the value at a path
+ * @param diff The diff
+ * @param path The path of property names
+ */
+export function diffTouchesPath<T extends JSONValue, U extends JSONValue>(diff: DiffResult<T, U>, path: readonly string[]): boolean {
+    return followPath(diff.modified, path) !== undefined || followPath(diff.deleted, path) !== undefined || followPath(diff.arrays, path) !== undefined;
+}
+
+/**
+ * Narrows a diff down to the part applying to the value at a path
+ * @param diff The diff
+ * @param path The path of property names
+ * @param value The value at the path after applying the diff, used where a parent of the path was changed as a whole
+ * @returns The diff of the value at the path
+ */
+export function scopeDiff<T extends JSONValue, U extends JSONValue>(diff: DiffResult<T, U>, path: readonly string[], value: JSONValue | undefined): DiffResult<JSONValue, JSONValue> {
+    const result: DiffResult<JSONValue, JSONValue> = {};
+    const deleted = followPath(diff.deleted, path);
+    if (deleted !== undefined) {
+        // A deleted parent deletes the whole value
+        result.deleted = deleted.rest.length > 0 ? null : deleted.node;
+    }
+    const modified = followPath(diff.modified, path);
+    if (modified !== undefined) {
+        result.modified = modified.rest.length > 0 ? getPath(modified.node as JSONValue, modified.rest) : modified.node;
+        if (result.modified === undefined) {
+            // A parent was replaced by a value without this path
+            result.deleted = null;
+        }
+    }
+    const arrays = followPath(diff.arrays, path);
+    if (arrays !== undefined) {
+        if (arrays.rest.length > 0) {
+            // Operations on an array containing the value cannot be narrowed down
+            result.modified = value;
+        } else {
+            result.arrays = arrays.node;
+        }
+    }
+    return result;
+}
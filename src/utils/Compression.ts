@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+export const compressionAlgorithmSchema = z.literal("deflate");
+export type CompressionAlgorithm = z.infer<typeof compressionAlgorithmSchema>;
+
+/**
+ * Default minimum size (in characters of serialized JSON) of a topic diff before it is compressed
+ */
+export const defaultCompressionThreshold = 16384;
+
+/**
+ * Implementation of a compression algorithm, passed to clients and servers in {@link IBaseClientOptions.compressors}
+ * Kept out of the core, so browser bundles do not pull in Node modules such as zlib
+ */
+export interface Compressor {
+    /**
+     * The compression algorithm implemented
+     */
+    algorithm: CompressionAlgorithm;
+    /**
+     * Compresses a JSON serialized string
+     * @param serialized The serialized JSON
+     * @returns The compressed data as a base64 string, so it can be sent over any transport
+     */
+    compress(serialized: string): string;
+    /**
+     * Decompresses data produced by {@link Compressor.compress}
+     * @param payload The compressed data as a base64 string
+     * @returns The serialized JSON
+     */
+    decompress(payload: string): string;
+}
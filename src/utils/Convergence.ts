@@ -0,0 +1,423 @@
+import { z } from "zod";
+import { DiffResult } from "./Compare";
+import { JSONObject, JSONValue } from "./JSON";
+
+export const convergenceModeSchema = z.literal("lww");
+/**
+ * Convergence mode of a topic channel
+ * - "lww": per-field last-writer-wins, ordered by hybrid logical clocks with ties broken by client ID
+ */
+export type ConvergenceMode = z.infer<typeof convergenceModeSchema>;
+
+export const hlcTimestampSchema = z.object({
+    /**
+     * Physical time (in ms since the epoch)
+     */
+    wall: z.number(),
+    /**
+     * Logical counter, ordering events within the same physical time
+     */
+    counter: z.number(),
+    /**
+     * ID of the client that created the timestamp
+     */
+    node: z.string(),
+});
+/**
+ * Hybrid logical clock timestamp
+ */
+export type HLCTimestamp = z.infer<typeof hlcTimestampSchema>;
+
+/**
+ * Compares two hybrid logical clock timestamps
+ * @returns A negative number if a is earlier than b, a positive number if a is later than b, 0 if they are the same
+ */
+export function compareHLC(a: HLCTimestamp, b: HLCTimestamp): number {
+    if (a.wall !== b.wall) return a.wall - b.wall;
+    if (a.counter !== b.counter) return a.counter - b.counter;
+    return a.node < b.node ? -1 : a.node > b.node ? 1 : 0;
+}
+
+/**
+ * Hybrid logical clock, producing timestamps that follow physical time but never go backwards, and are later than every timestamp received
+ */
+export class HybridLogicalClock {
+    /**
+     * The latest timestamp produced or received
+     */
+    private last: { wall: number, counter: number } = { wall: 0, counter: 0 };
+
+    /**
+     * Creates a new clock
+     * @param node The ID of the client the clock belongs to
+     */
+    constructor(private node: string) {}
+
+    /**
+     * Produces a timestamp for a local event
+     */
+    now(): HLCTimestamp {
+        const wall = Date.now();
+        if (wall > this.last.wall) {
+            this.last = { wall, counter: 0 };
+        } else {
+            this.last = { wall: this.last.wall, counter: this.last.counter + 1 };
+        }
+        return { ...this.last, node: this.node };
+    }
+
+    /**
+     * Advances the clock past a received timestamp
+     * @param remote The received timestamp
+     */
+    receive(remote: HLCTimestamp): void {
+        if (remote.wall > this.last.wall || (remote.wall === this.last.wall && remote.counter > this.last.counter)) {
+            this.last = { wall: remote.wall, counter: remote.counter };
+        }
+    }
+}
+
+/**
+ * JSON Pointer style path of a property, used as key for its timestamp
+ */
+function childPath(path: string, key: string): string {
+    return path + "/" + key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Whether a value is a JSON object (not an array or null)
+ */
+function isObject(value: any): value is JSONObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Node of the clock trie, holding the timestamp of the latest write or deletion of a property
+ */
+interface ClockNode {
+    /**
+     * Timestamp of the latest write or deletion of the property itself
+     */
+    clock?: HLCTimestamp;
+    /**
+     * Whether the latest change of the property was a deletion
+     */
+    deleted?: boolean;
+    /**
+     * Latest timestamp of the property and all of its children
+     */
+    latest?: HLCTimestamp;
+    /**
+     * Child nodes by escaped property key
+     */
+    children: Map<string, ClockNode>;
+}
+
+/**
+ * Later of two optional timestamps
+ */
+function laterHLC(a: HLCTimestamp | undefined, b: HLCTimestamp | undefined): HLCTimestamp | undefined {
+    if (a === undefined) return b;
+    if (b === undefined) return a;
+    return compareHLC(a, b) >= 0 ? a : b;
+}
+
+/**
+ * Per-field last-writer-wins state of a topic, keeping the timestamp of the latest write or deletion of each property
+ *
+ * Incoming diffs are filtered down to the writes and deletions that are newer than what the replica has seen for the same properties, their parents and their children,
+ * so every replica ends in the same state regardless of the order diffs are delivered in
+ *
+ * Deletions are kept until every connected peer has sent a later timestamp (see {@link LWWTopicState.collectGarbage}),
+ * after which changes older than them can no longer arrive and are dropped as a whole
+ */
+export class LWWTopicState {
+    /**
+     * Trie of property paths, with the root node for the whole topic
+     */
+    private root: ClockNode = { children: new Map() };
+    /**
+     * Deletions in the order they were recorded, to collect them once no older change can arrive anymore
+     */
+    private tombstones: Array<{ path: string, timestamp: HLCTimestamp }> = [];
+    /**
+     * Latest timestamp received from each peer
+     */
+    private peerClocks: Map<string, HLCTimestamp> = new Map();
+    /**
+     * Timestamp before which all changes are reflected in the topic, so older ones are dropped
+     */
+    private _horizon?: HLCTimestamp;
+
+    /**
+     * Creates a new last-writer-wins state
+     * @param synced Whether the replica holds the whole topic from the start, like the server, instead of once it received a full topic
+     */
+    constructor(private synced: boolean = false) {}
+
+    /**
+     * Timestamp before which all changes are reflected in the topic, sent along with full topics
+     */
+    get horizon(): HLCTimestamp | undefined {
+        return this._horizon;
+    }
+
+    /**
+     * Splits a property path into its escaped keys
+     */
+    private static tokens(path: string): string[] {
+        return path === "" ? [] : path.split("/").slice(1);
+    }
+
+    /**
+     * Gets the latest timestamp of a property, its parents and (optionally) its children
+     */
+    private latest(path: string, includeChildren: boolean): HLCTimestamp | undefined {
+        let node: ClockNode | undefined = this.root;
+        let latest = node.clock;
+        for (const token of LWWTopicState.tokens(path)) {
+            node = node.children.get(token);
+            if (node === undefined) return latest;
+            latest = laterHLC(latest, node.clock);
+        }
+        return includeChildren ? laterHLC(latest, node.latest) : latest;
+    }
+
+    /**
+     * Records a write or deletion of a property, replacing older timestamps of its children
+     */
+    private record(path: string, timestamp: HLCTimestamp, deleted: boolean): void {
+        let node = this.root;
+        node.latest = laterHLC(node.latest, timestamp);
+        for (const token of LWWTopicState.tokens(path)) {
+            let child = node.children.get(token);
+            if (child === undefined) {
+                child = { children: new Map() };
+                node.children.set(token, child);
+            }
+            node = child;
+            node.latest = laterHLC(node.latest, timestamp);
+        }
+        const prune = (parent: ClockNode): HLCTimestamp | undefined => {
+            let latest: HLCTimestamp | undefined;
+            for (const [token, child] of parent.children) {
+                if (child.clock !== undefined && compareHLC(child.clock, timestamp) <= 0) {
+                    child.clock = undefined;
+                    child.deleted = undefined;
+                }
+                child.latest = laterHLC(child.clock, prune(child));
+                if (child.latest === undefined) {
+                    parent.children.delete(token);
+                }
+                latest = laterHLC(latest, child.latest);
+            }
+            return latest;
+        };
+        const childrenLatest = prune(node);
+        if (node.clock === undefined || compareHLC(timestamp, node.clock) > 0) {
+            node.clock = timestamp;
+            node.deleted = deleted;
+            if (deleted) {
+                this.tombstones.push({ path, timestamp });
+            }
+        }
+        node.latest = laterHLC(node.clock, childrenLatest);
+    }
+
+    /**
+     * Removes the timestamp of a deletion, and the nodes left without timestamps
+     * The latest timestamps of the parents are left as they are, as they are older than the horizon and no longer compared against
+     */
+    private forget(path: string, timestamp: HLCTimestamp): void {
+        const nodes: Array<[ClockNode, string]> = [];
+        let node = this.root;
+        for (const token of LWWTopicState.tokens(path)) {
+            const child = node.children.get(token);
+            if (child === undefined) return;
+            nodes.push([node, token]);
+            node = child;
+        }
+        if (node.clock === undefined || !node.deleted || compareHLC(node.clock, timestamp) !== 0) return;
+        node.clock = undefined;
+        node.deleted = undefined;
+        for (const [parent, token] of nodes.reverse()) {
+            const child = parent.children.get(token)!;
+            if (child.clock !== undefined || child.children.size > 0) break;
+            parent.children.delete(token);
+        }
+    }
+
+    /**
+     * Collects the deletions that no change can be older than anymore
+     *
+     * Peers send their changes through the server in order, and their clocks are later than every timestamp they sent,
+     * so nothing older than the earliest of the latest timestamps received from each connected peer can arrive anymore.
+     * Peers that did not send a change yet do not hold back the collection, as their clocks follow physical time.
+     * Nothing is collected before the replica is synced, since the changes it missed before could still arrive in a full topic
+     * @param peers IDs of the connected peers; the timestamps of the others are forgotten
+     */
+    collectGarbage(peers: Iterable<string>): void {
+        if (!this.synced) return;
+        const connected = new Set(peers);
+        let stable: HLCTimestamp | undefined;
+        for (const [peer, clock] of this.peerClocks) {
+            if (!connected.has(peer)) {
+                this.peerClocks.delete(peer);
+            } else if (stable === undefined || compareHLC(clock, stable) < 0) {
+                stable = clock;
+            }
+        }
+        if (stable === undefined || (this._horizon !== undefined && compareHLC(stable, this._horizon) <= 0)) return;
+        this._horizon = stable;
+        // Deletions are recorded mostly in order, the few recorded out of order are collected with the next ones
+        let collected = 0;
+        while (collected < this.tombstones.length && compareHLC(this.tombstones[collected].timestamp, stable) < 0) {
+            const { path, timestamp } = this.tombstones[collected];
+            this.forget(path, timestamp);
+            collected++;
+        }
+        this.tombstones.splice(0, collected);
+    }
+
+    /**
+     * Filters an incoming diff down to the writes and deletions that win, and records their timestamps
+     * @param current The current value of the topic
+     * @param diffResult The incoming diff
+     * @param timestamp The timestamp of the diff
+     * @param clocks Per-property timestamps overriding the diff timestamp (sent with full topics); paths without a value in the diff are deletions
+     * @param horizon Horizon of the replica that sent the full topic; properties it does not have and that did not change since were deleted
+     * @returns The winning part of the diff
+     */
+    resolve(current: JSONValue | undefined, diffResult: DiffResult<JSONValue, JSONValue>, timestamp: HLCTimestamp, clocks?: Record<string, HLCTimestamp>, horizon?: HLCTimestamp): DiffResult<JSONValue, JSONValue> {
+        this.peerClocks.set(timestamp.node, laterHLC(this.peerClocks.get(timestamp.node), timestamp)!);
+        const timestampOf = (path: string): HLCTimestamp => {
+            if (clocks === undefined) return timestamp;
+            // The most specific per-property timestamp applies
+            let result = clocks[""] ?? timestamp;
+            let prefix = "";
+            for (const token of path.split("/").slice(1)) {
+                prefix += "/" + token;
+                result = clocks[prefix] ?? result;
+            }
+            return result;
+        };
+        const wins = (path: string, includeChildren: boolean): boolean => {
+            // Changes older than the horizon are already reflected in the topic, or were overwritten or deleted since
+            if (this._horizon !== undefined && compareHLC(timestampOf(path), this._horizon) < 0) return false;
+            const latest = this.latest(path, includeChildren);
+            // Equal timestamps can only come from the same message, e.g. a deletion and a write in one diff
+            return latest === undefined || compareHLC(timestampOf(path), latest) >= 0;
+        };
+        const resolveDelete = (value: JSONValue | undefined, deleted: any, path: string): any => {
+            if (deleted === undefined) return undefined;
+            if (deleted !== null) {
+                if (!isObject(deleted)) return undefined;
+                return resolveChildren(Object.keys(deleted), (key) => resolveDelete(isObject(value) ? value[key] : undefined, deleted[key], childPath(path, key)));
+            }
+            if (!wins(path, false)) return undefined;
+            let result: any = null;
+            if (!wins(path, true) && isObject(value)) {
+                // Some children were written after the deletion, so only delete the others
+                result = resolveChildren(Object.keys(value), (key) => resolveDelete(value[key], null, childPath(path, key)));
+            }
+            // Recorded even if the property does not exist (yet), so an older write delivered later does not bring it back
+            this.record(path, timestampOf(path), true);
+            return value === undefined ? undefined : result;
+        };
+        const resolveModify = (value: JSONValue | undefined, modified: any, path: string): any => {
+            if (modified === undefined) return undefined;
+            if (isObject(modified) && Object.keys(modified).length > 0) {
+                return resolveChildren(Object.keys(modified), (key) => resolveModify(isObject(value) ? value[key] : undefined, modified[key], childPath(path, key)));
+            }
+            if (isObject(modified)) {
+                // Empty objects only make sure the property exists, so they do not count as a write
+                return wins(path, false) ? modified : undefined;
+            }
+            if (!wins(path, true)) return undefined;
+            this.record(path, timestampOf(path), false);
+            return modified;
+        };
+        const resolveMissing = (value: JSONValue | undefined, modified: any, path: string): any => {
+            if (!isObject(value)) return undefined;
+            return resolveChildren(Object.keys(value), (key) => {
+                const keyPath = childPath(path, key);
+                if (isObject(modified) && modified[key] !== undefined) {
+                    return isObject(modified[key]) ? resolveMissing(value[key], modified[key], keyPath) : undefined;
+                }
+                const latest = this.latest(keyPath, true);
+                if (latest === undefined || compareHLC(latest, horizon!) < 0) return null;
+                return resolveMissing(value[key], undefined, keyPath);
+            });
+        };
+        const resolveChildren = (keys: string[], resolveChild: (key: string) => any): any => {
+            let result: Record<string, any> | undefined;
+            for (const key of keys) {
+                const child = resolveChild(key);
+                if (child !== undefined) {
+                    result = result ?? {};
+                    result[key] = child;
+                }
+            }
+            return result;
+        };
+        let deleted = resolveDelete(current, diffResult.deleted, "");
+        if (clocks !== undefined) {
+            // Deletions are only known by their timestamps in full topics
+            for (const path of Object.keys(clocks)) {
+                const tokens = path.split("/").slice(1).map(token => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+                let modified: any = diffResult.modified;
+                for (const token of tokens) {
+                    modified = isObject(modified) ? modified[token] : undefined;
+                }
+                // Deleted parents of properties that were written again still apply to their other children
+                if (modified !== undefined && !isObject(modified)) continue;
+                let tombstone: any = null;
+                for (const token of [...tokens].reverse()) {
+                    tombstone = { [token]: tombstone };
+                }
+                deleted = mergeDeleted(deleted, resolveDelete(current, tombstone, ""));
+            }
+        }
+        if (horizon !== undefined) {
+            // Deletions collected by the sender are only known by its horizon
+            deleted = mergeDeleted(deleted, resolveMissing(current, diffResult.modified, ""));
+        }
+        const modified = resolveModify(current, diffResult.modified, "");
+        if (clocks !== undefined) {
+            this.synced = true;
+            this._horizon = laterHLC(this._horizon, horizon);
+        }
+        return { modified, deleted };
+    }
+
+    /**
+     * Serializes the timestamps of all properties, to send along with a full topic
+     */
+    serialize(): Record<string, HLCTimestamp> {
+        const clocks: Record<string, HLCTimestamp> = {};
+        const visit = (node: ClockNode, path: string) => {
+            if (node.clock !== undefined) {
+                clocks[path] = node.clock;
+            }
+            for (const [token, child] of node.children) {
+                visit(child, path + "/" + token);
+            }
+        };
+        visit(this.root, "");
+        return clocks;
+    }
+}
+
+/**
+ * Merges two deleted objects in the diff format
+ */
+function mergeDeleted(a: any, b: any): any {
+    if (a === undefined) return b;
+    if (b === undefined) return a;
+    if (a === null || b === null) return null;
+    const result = { ...a };
+    for (const key of Object.keys(b)) {
+        result[key] = mergeDeleted(a[key], b[key]);
+    }
+    return result;
+}
@@ -0,0 +1,124 @@
+import { DiffResult, mergeDiff } from "./Compare";
+import { JSONValue } from "./JSON";
+
+/**
+ * History settings for a topic channel
+ */
+export type TopicHistoryOptions = {
+    /**
+     * Maximum number of diffs to keep
+     * @default 1000
+     */
+    size?: number;
+    /**
+     * Maximum age (in ms) of diffs to keep, compared to the newest diff
+     * @default Infinity
+     */
+    maxAge?: number;
+}
+
+/**
+ * A diff recorded in the history of a topic
+ */
+export type TopicHistoryEntry = {
+    /**
+     * The timestamp of the message that carried the diff
+     */
+    timestamp: number;
+    /**
+     * The diff
+     */
+    diff: DiffResult<JSONValue, JSONValue>;
+    /**
+     * The source of the diff
+     */
+    source: string;
+}
+
+/**
+ * Ring buffer of the diffs applied to a topic, which can rebuild the topic's value at any point in time it covers
+ *
+ * Diffs that fall out of the buffer are folded into a base value, so replaying the buffer on top of the base always gives the correct value
+ */
+export class TopicHistory {
+    /**
+     * The value of the topic before the oldest recorded diff
+     */
+    private base: JSONValue = {};
+    /**
+     * The timestamp from which the base value is known to be correct
+     */
+    private baseTimestamp: number;
+    /**
+     * The recorded diffs, oldest first
+     */
+    private entries: TopicHistoryEntry[] = [];
+    /**
+     * Maximum number of diffs to keep
+     */
+    private size: number;
+    /**
+     * Maximum age (in ms) of diffs to keep
+     */
+    private maxAge: number;
+
+    /**
+     * Creates a new history, starting from an empty topic
+     * @param options The history settings
+     * @param timestamp The time the topic was initialized
+     */
+    constructor(options: TopicHistoryOptions, timestamp: number = Date.now()) {
+        this.size = options.size ?? 1000;
+        this.maxAge = options.maxAge ?? Infinity;
+        this.baseTimestamp = timestamp;
+    }
+
+    /**
+     * Records a diff, evicting diffs that exceed the size or age limits
+     * @param entry The diff with its timestamp and source
+     */
+    record(entry: TopicHistoryEntry): void {
+        this.entries.push(entry);
+        while (this.entries.length > this.size || (this.entries.length > 0 && entry.timestamp - this.entries[0].timestamp > this.maxAge)) {
+            const evicted = this.entries.shift()!;
+            this.base = mergeDiff(this.base, evicted.diff);
+            this.baseTimestamp = evicted.timestamp;
+        }
+    }
+
+    /**
+     * Replays the recorded diffs (in the order they were applied) up to a point in time
+     * @param timestamp The point in time
+     * @returns The value at that time, or undefined if the history does not reach back that far
+     */
+    valueAt(timestamp: number): JSONValue | undefined {
+        if (timestamp < this.baseTimestamp) {
+            return undefined;
+        }
+        let value = this.base;
+        for (const entry of this.entries) {
+            if (entry.timestamp > timestamp) break;
+            value = mergeDiff(value, entry.diff);
+        }
+        return value;
+    }
+
+    /**
+     * Replays the recorded diffs, collecting the value after each diff within a time range
+     * @param since Start of the range (inclusive)
+     * @param until End of the range (inclusive)
+     * @returns The recorded diffs within the range, each with the value it resulted in
+     */
+    valuesBetween(since: number, until: number): Array<TopicHistoryEntry & { value: JSONValue }> {
+        const result: Array<TopicHistoryEntry & { value: JSONValue }> = [];
+        let value = this.base;
+        for (const entry of this.entries) {
+            if (entry.timestamp > until) break;
+            value = mergeDiff(value, entry.diff);
+            if (entry.timestamp >= since) {
+                result.push({ ...entry, value });
+            }
+        }
+        return result;
+    }
+}
@@ -0,0 +1,226 @@
+import { cloneDeep, isEqual } from 'lodash';
+import { ArrayDiff, diff, DiffOptions, DiffResult } from './Compare';
+import { JSONObject, JSONValue } from './JSON';
+
+/**
+ * A JSON Patch operation as defined in RFC 6902
+ */
+export type JSONPatchOperation =
+    | { op: "add"; path: string; value: JSONValue }
+    | { op: "remove"; path: string }
+    | { op: "replace"; path: string; value: JSONValue }
+    | { op: "move"; from: string; path: string }
+    | { op: "copy"; from: string; path: string }
+    | { op: "test"; path: string; value: JSONValue };
+
+/**
+ * Escapes a property name into a JSON Pointer (RFC 6901) reference token
+ */
+function escapeToken(token: string): string {
+    return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Parses a JSON Pointer (RFC 6901) into its reference tokens
+ */
+function parsePointer(pointer: string): string[] {
+    if (pointer === "") {
+        return [];
+    }
+    if (!pointer.startsWith("/")) {
+        throw new Error(`Invalid JSON Pointer: ${pointer}`);
+    }
+    return pointer.slice(1).split("/").map(token => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Whether a value is a JSON object (not an array or null)
+ */
+function isObject(value: JSONValue | undefined): value is JSONObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Converts a diff into JSON Patch operations, in the same order {@link mergeDiff} applies it (deleted, modified, then arrays)
+ * @param oldValue The value the diff applies to, needed to tell new properties from changed ones
+ * @param diffResult The diff
+ * @returns The operations turning the old value into the merged value
+ */
+export function diffToPatch<T extends JSONValue, U extends JSONValue>(oldValue: T | undefined, diffResult: DiffResult<T, U>): JSONPatchOperation[] {
+    const operations: JSONPatchOperation[] = [];
+    const addDeleted = (value: JSONValue | undefined, deleted: any, path: string) => {
+        if (deleted === undefined || value === undefined) return;
+        if (deleted === null) {
+            operations.push({ op: "remove", path });
+        } else if (isObject(value)) {
+            for (const key of Object.keys(deleted)) {
+                addDeleted(value[key], deleted[key], path + "/" + escapeToken(key));
+            }
+        }
+    };
+    const addModified = (value: JSONValue | undefined, modified: any, path: string) => {
+        if (modified === undefined) return;
+        if (isObject(value) && isObject(modified)) {
+            for (const key of Object.keys(modified)) {
+                addModified(value[key], modified[key], path + "/" + escapeToken(key));
+            }
+        } else if (path === "") {
+            operations.push({ op: "replace", path, value: modified });
+        } else {
+            // Add replaces existing object members too
+            operations.push({ op: "add", path, value: modified });
+        }
+    };
+    const addArrays = (arrays: ArrayDiff, path: string) => {
+        if (!Array.isArray(arrays)) {
+            for (const key of Object.keys(arrays)) {
+                addArrays(arrays[key], path + "/" + escapeToken(key));
+            }
+            return;
+        }
+        for (const operation of arrays) {
+            switch (operation.op) {
+                case "insert":
+                    operation.values.forEach((value, i) => operations.push({ op: "add", path: `${path}/${operation.index + i}`, value }));
+                    break;
+                case "remove":
+                    for (let i = 0; i < operation.count; i++) {
+                        operations.push({ op: "remove", path: `${path}/${operation.index}` });
+                    }
+                    break;
+                case "replace":
+                    operations.push({ op: "replace", path: `${path}/${operation.index}`, value: operation.value });
+                    break;
+                case "move":
+                    operations.push({ op: "move", from: `${path}/${operation.from}`, path: `${path}/${operation.to}` });
+                    break;
+            }
+        }
+    };
+    addDeleted(oldValue, diffResult.deleted, "");
+    // Modified properties are merged into what is left after deleting
+    const afterDelete = applyPatch(oldValue, operations);
+    addModified(afterDelete, diffResult.modified, "");
+    if (diffResult.arrays !== undefined) {
+        addArrays(diffResult.arrays, "");
+    }
+    return operations;
+}
+
+/**
+ * Applies JSON Patch operations to a value without modifying it
+ * @param value The value to patch
+ * @param operations The operations
+ * @returns The patched value
+ * @throws Error if an operation refers to a path that does not exist, or a test operation fails
+ */
+export function applyPatch(value: JSONValue | undefined, operations: JSONPatchOperation[]): JSONValue | undefined {
+    let document = cloneDeep(value);
+    const get = (tokens: string[]): JSONValue | undefined => {
+        let current: JSONValue | undefined = document;
+        for (const token of tokens) {
+            if (Array.isArray(current)) {
+                current = current[Number(token)];
+            } else if (isObject(current)) {
+                current = current[token];
+            } else {
+                return undefined;
+            }
+        }
+        return current;
+    };
+    const getParent = (tokens: string[], path: string): JSONObject | JSONValue[] => {
+        const parent = get(tokens.slice(0, -1));
+        if (!Array.isArray(parent) && !isObject(parent)) {
+            throw new Error(`Path ${path} does not exist`);
+        }
+        return parent;
+    };
+    const arrayIndex = (array: JSONValue[], token: string, path: string, allowEnd: boolean): number => {
+        const index = token === "-" && allowEnd ? array.length : Number(token);
+        if (!/^(0|[1-9][0-9]*|-)$/.test(token) || !Number.isInteger(index) || index < 0 || index > (allowEnd ? array.length : array.length - 1)) {
+            throw new Error(`Invalid array index in path ${path}`);
+        }
+        return index;
+    };
+    const add = (path: string, newValue: JSONValue) => {
+        const tokens = parsePointer(path);
+        if (tokens.length === 0) {
+            document = newValue;
+            return;
+        }
+        const parent = getParent(tokens, path);
+        const last = tokens[tokens.length - 1];
+        if (Array.isArray(parent)) {
+            parent.splice(arrayIndex(parent, last, path, true), 0, newValue);
+        } else {
+            parent[last] = newValue;
+        }
+    };
+    const remove = (path: string): JSONValue => {
+        const tokens = parsePointer(path);
+        if (tokens.length === 0) {
+            throw new Error("Cannot remove the whole document");
+        }
+        const parent = getParent(tokens, path);
+        const last = tokens[tokens.length - 1];
+        if (Array.isArray(parent)) {
+            return parent.splice(arrayIndex(parent, last, path, false), 1)[0];
+        }
+        if (!(last in parent)) {
+            throw new Error(`Path ${path} does not exist`);
+        }
+        const removed = parent[last];
+        delete parent[last];
+        return removed;
+    };
+    for (const operation of operations) {
+        switch (operation.op) {
+            case "add":
+                add(operation.path, cloneDeep(operation.value));
+                break;
+            case "remove":
+                remove(operation.path);
+                break;
+            case "replace":
+                if (parsePointer(operation.path).length > 0) {
+                    remove(operation.path);
+                }
+                add(operation.path, cloneDeep(operation.value));
+                break;
+            case "move":
+                add(operation.path, remove(operation.from));
+                break;
+            case "copy": {
+                const copied = get(parsePointer(operation.from));
+                if (copied === undefined) {
+                    throw new Error(`Path ${operation.from} does not exist`);
+                }
+                add(operation.path, cloneDeep(copied));
+                break;
+            }
+            case "test":
+                if (!isEqual(get(parsePointer(operation.path)), operation.value)) {
+                    throw new Error(`Test operation failed at path ${operation.path}`);
+                }
+                break;
+        }
+    }
+    return document;
+}
+
+/**
+ * Converts JSON Patch operations into a diff, by applying them to the value and diffing the result
+ * @param oldValue The value the operations apply to
+ * @param operations The operations
+ * @param options Diff options, e.g. to produce element level array operations
+ * @returns The diff between the old value and the patched value
+ * @throws Error if the operations cannot be applied to the value
+ */
+export function patchToDiff<T extends JSONValue>(oldValue: T, operations: JSONPatchOperation[], options: DiffOptions = {}): DiffResult<T, T> {
+    const patched = applyPatch(oldValue, operations);
+    if (patched === undefined) {
+        throw new Error("Patch removed the whole document");
+    }
+    return diff(oldValue, patched as T, options);
+}
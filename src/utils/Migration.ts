@@ -0,0 +1,69 @@
+import { isEqual } from "lodash";
+import { diff, DiffResult, mergeDiff } from "./Compare";
+import { JSONValue } from "./JSON";
+
+/**
+ * Migration of a topic value between a schema version and the version before it
+ */
+export type TopicMigration = {
+    /**
+     * Converts a value of the version before into this version
+     */
+    up: (value: any) => JSONValue;
+    /**
+     * Converts a value of this version into the version before
+     */
+    down: (value: any) => JSONValue;
+}
+
+/**
+ * Migrations of a topic channel, keyed by the version they migrate to from the version before it
+ */
+export type TopicMigrations = Record<number, TopicMigration>;
+
+/**
+ * Migrates a topic value from one schema version to another, one version at a time
+ * @param value The value, in the source version
+ * @param from The source version
+ * @param to The target version
+ * @param migrations The migrations of the channel
+ * @returns The value in the target version
+ * @throws Error if a migration in between is missing
+ */
+export function migrateValue(value: JSONValue, from: number, to: number, migrations: TopicMigrations): JSONValue {
+    let migrated = value;
+    for (let version = from; version < to; version++) {
+        const migration = migrations[version + 1];
+        if (migration === undefined) {
+            throw new Error(`No migration from version ${version} to ${version + 1}`);
+        }
+        migrated = migration.up(migrated);
+    }
+    for (let version = from; version > to; version--) {
+        const migration = migrations[version];
+        if (migration === undefined) {
+            throw new Error(`No migration from version ${version} to ${version - 1}`);
+        }
+        migrated = migration.down(migrated);
+    }
+    return migrated;
+}
+
+/**
+ * Converts a diff made in another schema version into a diff against the current value in the target version,
+ * by applying it to the current value migrated to the source version and migrating the result back
+ * @param current The current value, in the target version
+ * @param diffResult The diff, made in the source version
+ * @param from The source version
+ * @param to The target version
+ * @param migrations The migrations of the channel
+ * @param arrays Whether to diff arrays element by element
+ * @returns The diff in the target version
+ * @throws Error if a migration in between is missing, or fails on the value
+ */
+export function migrateDiff(current: JSONValue, diffResult: DiffResult<JSONValue, JSONValue>, from: number, to: number, migrations: TopicMigrations, arrays: boolean = false): DiffResult<JSONValue, JSONValue> {
+    // Topics without any value yet, e.g. after a reset, look the same in every version
+    const base = isEqual(current, {}) ? current : migrateValue(current, to, from, migrations);
+    const migrated = migrateValue(mergeDiff(base, diffResult), from, to, migrations);
+    return diff(current, migrated, { arrays });
+}
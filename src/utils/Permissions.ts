@@ -0,0 +1,82 @@
+import { isEqual } from "lodash";
+import { JSONObject, JSONValue } from "./JSON";
+
+/**
+ * Who may publish to a topic or a subtree of it
+ * - "any": every client
+ * - "owner": only the owner of the topic, which is the first client to publish a change to it, until it disconnects
+ * - A list of client IDs
+ * - A predicate, called with the publishing client ID and the path of every property it changes
+ */
+export type PublishPermission = "any" | "owner" | string[] | ((clientID: string, path: string[]) => boolean);
+
+/**
+ * Publish permissions of a topic channel, enforced by the {@link TopicServer}
+ */
+export type TopicPermissions = {
+    /**
+     * Who may publish to the topic, for properties not covered by {@link TopicPermissions.subtrees}
+     * @default "any"
+     */
+    publish?: PublishPermission;
+    /**
+     * Who may publish to subtrees of the topic, keyed by JSON Pointer (e.g. "/robots/r1"); the most specific subtree applies
+     */
+    subtrees?: Record<string, PublishPermission>;
+}
+
+/**
+ * Whether a value is a JSON object (not an array or null)
+ */
+function isObject(value: JSONValue | undefined): value is JSONObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Gets the paths of the properties that differ between two values, descending into objects but not into arrays
+ * @param oldValue The old value
+ * @param newValue The new value
+ * @returns The paths of the added, changed and removed properties
+ */
+export function changedPaths(oldValue: JSONValue | undefined, newValue: JSONValue | undefined, path: string[] = []): string[][] {
+    if (isObject(oldValue) && isObject(newValue)) {
+        const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+        return [...keys].flatMap(key => changedPaths(oldValue[key], newValue[key], [...path, key]));
+    }
+    return isEqual(oldValue, newValue) ? [] : [path];
+}
+
+/**
+ * Gets the permission that applies to a property
+ * @param permissions The permissions of the topic
+ * @param path The path of the property
+ * @returns The permission of the most specific subtree containing the property, or the topic permission
+ */
+export function permissionFor(permissions: TopicPermissions, path: string[]): PublishPermission {
+    let permission = permissions.publish ?? "any";
+    let longest = -1;
+    for (const [pointer, subtreePermission] of Object.entries(permissions.subtrees ?? {})) {
+        const tokens = pointer === "" ? [] : pointer.slice(1).split("/").map(token => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+        const contains = tokens.length <= path.length && tokens.every((token, i) => token === path[i]);
+        if (contains && tokens.length > longest) {
+            permission = subtreePermission;
+            longest = tokens.length;
+        }
+    }
+    return permission;
+}
+
+/**
+ * Checks whether a client may change a property
+ * @param permission The permission that applies to the property
+ * @param clientID The ID of the publishing client
+ * @param path The path of the property
+ * @param owner The ID of the owner of the topic, if it has one
+ * @returns Whether the change is allowed
+ */
+export function isPublishAllowed(permission: PublishPermission, clientID: string, path: string[], owner?: string): boolean {
+    if (permission === "any") return true;
+    if (permission === "owner") return owner === undefined || owner === clientID;
+    if (Array.isArray(permission)) return permission.includes(clientID);
+    return permission(clientID, path);
+}
@@ -1,21 +1,41 @@
 import { z } from "zod";
-import { RequestType, ServiceChannel, ServiceResponseType, TopicChannel } from "./Channel";
+import { DerivedTopicChannel, RequestType, ServiceChannel, ServiceResponseType, TopicChannel, TopicChannelOptions, TopicChannelValues } from "./Channel";
 import { JSONValue } from "./JSON";
 
 /**
  * Creates a topic channel object with the given name and schema
  * @param name Name of the channel
  * @param schema Schema of the channel
+ * @param options Optional settings of the channel
  * @returns The topic channel object
  */
-export function createTopic<T extends JSONValue>(name: string, schema: z.ZodSchema<T>): TopicChannel<T> {
+export function createTopic<T extends JSONValue>(name: string, schema: z.ZodSchema<T>, options?: TopicChannelOptions): TopicChannel<T> {
     return {
+        ...options,
         mode: "topic",
         name,
         schema
     }
 }
 
+/**
+ * Creates a topic channel object whose value is computed from other topic channels, by the client calling {@link BaseClient.derive} on it
+ * Other clients subscribe to it like any other topic, unless it is {@link TopicChannelOptions.local}
+ * @param name Name of the channel
+ * @param sources The channels the value is computed from
+ * @param compute Computes the value from the values of the sources, in the same order
+ * @param schema Schema of the channel
+ * @param options Optional settings of the channel
+ * @returns The derived topic channel object
+ */
+export function createDerivedTopic<T extends JSONValue, S extends TopicChannel<any>[]>(name: string, sources: [...S], compute: (...values: TopicChannelValues<S>) => T, schema: z.ZodSchema<T>, options?: TopicChannelOptions): DerivedTopicChannel<T, S> {
+    return {
+        ...createTopic(name, schema, options),
+        sources,
+        compute
+    }
+}
+
 /**
  * Creates a service channel object with the given name, request schema, and response schema
  * @param name Name of the channel
@@ -0,0 +1,112 @@
+import { createTopic, IClient, LoopbackServer, TopicClient, TopicRejection, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe("Acknowledged publish tests", () => {
+    const poseTopic = createTopic("pose", z.object({ x: z.number(), y: z.number() }))
+    const settledTopic = createTopic("settled", z.object({ settled: z.boolean() }))
+    const setup = async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([poseTopic, settledTopic])
+        topicServer.pub(poseTopic, { x: 0, y: 0 })
+        // Drops the topic messages of the client while lossy, like a connection that silently loses them
+        const socket = loopbackServer.createClient()
+        const connection = { lossy: false }
+        const lossySocket: IClient = {
+            on: (event, listener) => socket.on(event, listener),
+            emit: (event, data) => {
+                if (!(connection.lossy && event === "ch-tp-us-pose")) {
+                    socket.emit(event, data)
+                }
+            },
+            disconnect: () => socket.disconnect(),
+        }
+        const topicClient = new TopicClient(lossySocket)
+        await topicClient.getTopic(poseTopic, 1000)
+        // The client still answers the full topic request the server sent when it connected, and messages are delivered in order,
+        // so the answer reaches the server before an acknowledged publish sent after it returns
+        await topicClient.pubAck(settledTopic, { settled: true })
+        return { topicServer, topicClient, connection }
+    }
+    test("acknowledged publishes should resolve once the server applied them", async () => {
+        const { topicServer, topicClient } = await setup()
+        const published = topicClient.pubAck(poseTopic, { x: 1, y: 0 })
+        // Applied optimistically
+        expect(topicClient.getTopicSync(poseTopic)).toEqual({ x: 1, y: 0 })
+        await published
+        expect(topicServer.getTopicSync(poseTopic)).toEqual({ x: 1, y: 0 })
+        topicClient.disconnect()
+    })
+    test("rejected publishes should be rolled back", async () => {
+        const { topicServer, topicClient } = await setup()
+        topicServer.setTopicPermissions(poseTopic, { publish: [] })
+        const seen: number[] = []
+        topicClient.sub(poseTopic, (pose) => seen.push(pose.x), false)
+        await expect(topicClient.pubAck(poseTopic, { x: 1, y: 0 })).rejects.toThrow("rejected")
+        expect(topicClient.getTopicSync(poseTopic)).toEqual({ x: 0, y: 0 })
+        expect(seen).toEqual([1, 0])
+        topicClient.disconnect()
+    })
+    test("publishes that are not acknowledged in time should be rolled back", async () => {
+        const { topicServer, topicClient, connection } = await setup()
+        connection.lossy = true
+        await expect(topicClient.pubAck(poseTopic, { x: 1, y: 0 }, 20)).rejects.toThrow("acknowledge")
+        expect(topicClient.getTopicSync(poseTopic)).toEqual({ x: 0, y: 0 })
+        expect(topicServer.getTopicSync(poseTopic)).toEqual({ x: 0, y: 0 })
+        topicClient.disconnect()
+    })
+    test("rolling back should keep the updates others made since", async () => {
+        const { topicServer, topicClient, connection } = await setup()
+        connection.lossy = true
+        const published = topicClient.pubAck(poseTopic, { x: 1, y: 1 }, 50)
+        topicServer.pub(poseTopic, { x: 2, y: 0 })
+        await expect(published).rejects.toThrow("acknowledge")
+        // Only y still held the value of the publish
+        expect(topicClient.getTopicSync(poseTopic)).toEqual({ x: 2, y: 0 })
+        topicClient.disconnect()
+    })
+    test("publishes the server relays without applying them should be rolled back", async () => {
+        const { topicServer, topicClient } = await setup()
+        const rejections: TopicRejection[] = []
+        topicClient.subRejections(rejection => rejections.push(rejection))
+        // @ts-expect-error - publishing garbage on purpose
+        await expect(topicClient.pubAck(poseTopic, { x: "garbage", y: 0 })).rejects.toThrow("rejected")
+        expect(rejections.map(rejection => rejection.reason)).toEqual(["invalid"])
+        expect(topicClient.getTopicSync(poseTopic)).toEqual({ x: 0, y: 0 })
+        expect(topicServer.getTopicSync(poseTopic)).toEqual({ x: 0, y: 0 })
+        topicClient.disconnect()
+    })
+    test("publishes losing to newer changes should be rolled back", async () => {
+        const lwwPoseTopic = createTopic("lwwPose", poseTopic.schema, { convergence: "lww" })
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([lwwPoseTopic])
+        topicServer.pub(lwwPoseTopic, { x: 0, y: 0 })
+        // Holds back the topic messages of the client, like a slow connection
+        const socket = loopbackServer.createClient()
+        const held: Array<[string, any]> = []
+        const connection = { holding: false }
+        const slowSocket: IClient = {
+            on: (event, listener) => socket.on(event, listener),
+            emit: (event, data) => connection.holding && event === "ch-tp-us-lwwPose" ? held.push([event, data]) : socket.emit(event, data),
+            disconnect: () => socket.disconnect(),
+        }
+        const topicClient = new TopicClient(slowSocket)
+        await topicClient.getTopic(lwwPoseTopic, 1000)
+        connection.holding = true
+        const published = topicClient.pubAck(lwwPoseTopic, { x: 1, y: 0 })
+        // Later in physical time than the held back publish, so it wins on the server
+        await sleep(5)
+        topicServer.pub(lwwPoseTopic, { x: 2, y: 0 })
+        connection.holding = false
+        held.forEach(([event, data]) => socket.emit(event, data))
+        await expect(published).rejects.toThrow("rejected")
+        expect(topicServer.getTopicSync(lwwPoseTopic)).toEqual({ x: 2, y: 0 })
+        // The client resyncs instead of rolling back with a newer clock
+        expect(await topicClient.getTopic(lwwPoseTopic, 1000)).toEqual({ x: 2, y: 0 })
+        topicClient.disconnect()
+    })
+})
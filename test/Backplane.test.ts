@@ -0,0 +1,69 @@
+import { createService, createTopic, InProcessBackplane, LoopbackServer, serverMetaChannel, TopicClient, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Backplane tests", () => {
+    const testTopic = createTopic("test", z.record(z.number()))
+    const testService = createService("test", z.object({
+        a: z.number(),
+        b: z.number()
+    }),
+        z.number()
+    )
+    const backplane = new InProcessBackplane()
+    const loopbackA = new LoopbackServer()
+    const loopbackB = new LoopbackServer()
+    const serverA = new TopicServer(loopbackA)
+    const serverB = new TopicServer(loopbackB)
+    serverA.initChannels([testTopic, testService])
+    serverB.initChannels([testTopic, testService])
+    serverA.attachBackplane(backplane)
+    serverB.attachBackplane(backplane)
+    const clientA = new TopicClient(loopbackA.createClient())
+    const clientB = new TopicClient(loopbackB.createClient())
+    test("server meta should list the clients of all nodes", (done) => {
+        clientA.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[clientB.id] !== undefined && meta.clients[serverB.id] !== undefined) {
+                unsub()
+                expect(meta.serverID).toBe(serverA.id)
+                done()
+            }
+        })
+    })
+    test("topics should be shared between nodes", (done) => {
+        clientB.sub(testTopic, (data, unsub) => {
+            if (data.a === 1) {
+                unsub()
+                expect(serverB.getTopicSync(testTopic)).toEqual({ a: 1 })
+                done()
+            }
+        })
+        clientA.pub(testTopic, { a: 1 })
+    })
+    test("service requests should reach clients connected to another node", async () => {
+        clientB.srv(testService, ({ a, b }) => a + b)
+        await expect(clientA.req(testService, clientB.id, { a: 1, b: 2 })).resolves.toBe(3)
+    })
+    test("service requests should reach other nodes", async () => {
+        serverB.srv(testService, ({ a, b }) => a * b)
+        await expect(clientA.req(testService, serverB.id, { a: 2, b: 3 })).resolves.toBe(6)
+    })
+    test("clients that disconnect should be removed from the meta of other nodes", (done) => {
+        clientB.disconnect()
+        clientA.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[clientB.id] === undefined) {
+                unsub()
+                done()
+            }
+        })
+    })
+    test("detached nodes should be removed from the meta of other nodes", (done) => {
+        serverB.detachBackplane()
+        clientA.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[serverB.id] === undefined) {
+                unsub()
+                done()
+            }
+        })
+    })
+})
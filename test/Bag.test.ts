@@ -0,0 +1,75 @@
+import { createTopic, LoopbackServer, TopicClient, TopicServer } from "../src"
+import { BagPlayer, BagRecorder, bagRecordSchema, readBag } from "../src/node"
+import { afterAll, describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+
+describe("Bag tests", () => {
+    const directory = mkdtempSync(join(tmpdir(), "webtopics-"))
+    afterAll(() => {
+        rmSync(directory, { recursive: true, force: true })
+    })
+    const path = join(directory, "test.bag")
+    const testTopic = createTopic("test", z.object({
+        position: z.number(),
+    }))
+    const record = (timestamp: number, modified: { position?: number }) => bagRecordSchema.parse({
+        timestamp,
+        channel: "test",
+        mode: "topic",
+        direction: "in",
+        msg: { timestamp, messageType: "topic", source: "recorded", modified },
+    })
+    // The empty full topic of a client that just joined, followed by two diffs
+    const records = [record(1000, {}), record(1010, { position: 1 }), record(1050, { position: 2 })]
+    test("messages sent and received should be recorded", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([testTopic])
+        const recorder = new BagRecorder(topicServer, path)
+        topicServer.pub(testTopic, { position: 0 })
+        const topicClient = new TopicClient(loopbackServer.createClient())
+        await topicClient.getTopic(testTopic, 1000)
+        // Messages are delivered in order, so the full topic exchange when the client joined is over once two acknowledged publishes returned
+        await topicClient.pubAck(testTopic, { position: 1 })
+        await topicClient.pubAck(testTopic, { position: 2 })
+        topicServer.pub(testTopic, { position: 3 })
+        await recorder.stop()
+        topicClient.disconnect()
+        const records = readBag(path).filter(record => record.channel === "test" && record.msg.messageType === "topic").slice(-2)
+        expect(records.map(record => record.direction)).toEqual(["in", "out"])
+        expect(records[0].msg).toMatchObject({ source: topicClient.id, modified: { position: 2 } })
+        expect(records[1].msg).toMatchObject({ modified: { position: 3 } })
+    })
+    test("recorded topics should be played back with their timing", (done) => {
+        const topicServer = new TopicServer(new LoopbackServer())
+        topicServer.initChannels([testTopic])
+        const player = new BagPlayer(topicServer, records, [testTopic], { speed: 2 })
+        const values: number[] = []
+        topicServer.sub(testTopic, (value) => {
+            values.push(value.position)
+        })
+        const start = Date.now()
+        player.onEnd(() => {
+            expect(values.slice(-2)).toEqual([1, 2])
+            expect(Date.now() - start).toBeGreaterThanOrEqual((player.end - player.start) / 2 - 5)
+            done()
+        })
+        player.play()
+    })
+    test("seeking should restore topic values at that time", () => {
+        const topicServer = new TopicServer(new LoopbackServer())
+        topicServer.initChannels([testTopic])
+        const player = new BagPlayer(topicServer, records, [testTopic])
+        player.seek(1010)
+        expect(topicServer.getTopicSync(testTopic)).toEqual({ position: 1 })
+        player.seek(player.end)
+        expect(topicServer.getTopicSync(testTopic)).toEqual({ position: 2 })
+        // The empty topic at the start fails the schema, so the topic keeps its value
+        player.seek(player.start)
+        expect(topicServer.getTopicSync(testTopic)).toEqual({ position: 2 })
+        expect(player.playing).toBe(false)
+    })
+})
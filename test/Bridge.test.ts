@@ -0,0 +1,103 @@
+import { createService, createTopic, LoopbackServer, serverMetaChannel, TopicBridge, TopicClient, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("TopicBridge tests", () => {
+    const testTopic = createTopic("test", z.record(z.number()))
+    const testService = createService("test", z.object({
+        a: z.number(),
+        b: z.number()
+    }),
+        z.number()
+    )
+    const loopbackA = new LoopbackServer()
+    const loopbackB = new LoopbackServer()
+    const serverA = new TopicServer(loopbackA)
+    const serverB = new TopicServer(loopbackB)
+    serverA.initChannels([testTopic, testService])
+    serverB.initChannels([testTopic, testService])
+    const bridge = new TopicBridge(loopbackA.createClient(), loopbackB.createClient(), {
+        topics: [testTopic],
+        services: [testService],
+        namespaceA: "control",
+        namespaceB: "robot",
+    })
+    serverA.registerBridge(bridge.idA)
+    serverB.registerBridge(bridge.idB)
+    const clientA = new TopicClient(loopbackA.createClient())
+    const clientB = new TopicClient(loopbackB.createClient())
+    test("clients behind the bridge should appear in server meta under a namespace", (done) => {
+        serverA.sub(serverMetaChannel, (meta, unsub) => {
+            const entry = meta.clients[`robot/${clientB.id}`]
+            if (entry !== undefined) {
+                unsub()
+                expect(entry.via).toBe(bridge.idA)
+                done()
+            }
+        })
+    })
+    test("topics should be mirrored in both directions", (done) => {
+        clientA.pub(testTopic, { a: 1 }, true, false)
+        clientB.pub(testTopic, { b: 2 }, true, false)
+        let doneA = false
+        let doneB = false
+        clientA.sub(testTopic, (data, unsub) => {
+            if (data.b === 2 && !doneA) {
+                doneA = true
+                unsub()
+                expect(data).toEqual({ a: 1, b: 2 })
+                if (doneB) done()
+            }
+        })
+        clientB.sub(testTopic, (data, unsub) => {
+            if (data.a === 1 && !doneB) {
+                doneB = true
+                unsub()
+                expect(data).toEqual({ a: 1, b: 2 })
+                if (doneA) done()
+            }
+        })
+    })
+    test("mirrored updates should not echo back", async () => {
+        let echoes = 0
+        const unsub = clientA.sub(testTopic, (data) => {
+            if (data.d === undefined) {
+                echoes++
+            }
+        }, false)
+        const mirrored = new Promise<void>(resolve => serverB.sub(testTopic, (data, unsubB) => {
+            if (data.c === 3) {
+                unsubB()
+                resolve()
+            }
+        }, false))
+        clientA.pub(testTopic, { c: 3 }, false, false)
+        await mirrored
+        // Messages are delivered in order, so an echo would reach clientA before a later update from the other side
+        const passed = new Promise<void>(resolve => clientA.sub(testTopic, (data, unsubA) => {
+            if (data.d === 4) {
+                unsubA()
+                resolve()
+            }
+        }, false))
+        clientB.pub(testTopic, { d: 4 }, true, false)
+        await passed
+        unsub()
+        expect(echoes).toBe(0)
+        expect(serverB.getTopicSync(testTopic)).toEqual({ a: 1, b: 2, c: 3, d: 4 })
+    })
+    test("service requests should be proxied to clients behind the bridge", async () => {
+        clientB.srv(testService, ({ a, b }) => a + b)
+        await expect(clientA.req(testService, `robot/${clientB.id}`, { a: 1, b: 2 })).resolves.toBe(3)
+    })
+    test("clients that disconnect should be removed from the other server's meta", (done) => {
+        clientB.disconnect()
+        serverA.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[`robot/${clientB.id}`] === undefined) {
+                unsub()
+                bridge.disconnect()
+                done()
+            }
+        })
+    })
+})
@@ -0,0 +1,58 @@
+import { createTopic, LoopbackServer, TopicClient, TopicServer } from "../src"
+import { cborCodec } from "../src/codecs/cbor"
+import { msgpackCodec } from "../src/codecs/msgpack"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Codec tests", () => {
+    const testTopicSchema = z.object({
+        testString: z.string(),
+        testNested: z.object({
+            testNumber: z.number(),
+            testNull: z.null(),
+        }),
+    })
+    const testTopic = createTopic("test", testTopicSchema)
+    test("codecs should round trip messages, skipping undefined properties", () => {
+        const msg = { modified: { a: 1, b: null }, deleted: undefined, timestamp: 1, messageType: "topic", source: "test" }
+        for (const codec of [msgpackCodec, cborCodec]) {
+            const decoded = codec.decode(codec.encode(msg))
+            expect(decoded.modified).toEqual({ a: 1, b: null })
+            expect(decoded.deleted).toBeUndefined()
+        }
+    })
+    for (const codec of [msgpackCodec, cborCodec]) {
+        test(`clients should exchange topics using the ${codec.name} codec`, (done) => {
+            const loopbackServer = new LoopbackServer()
+            const topicServer = new TopicServer(loopbackServer, { codec })
+            topicServer.initChannels([testTopic])
+            const topicClient1 = new TopicClient(loopbackServer.createClient(), { codec })
+            const topicClient2 = new TopicClient(loopbackServer.createClient(), { codec })
+            topicClient2.sub(testTopic, (data, unsub) => {
+                unsub()
+                expect(data).toEqual({
+                    testString: "test",
+                    testNested: { testNumber: 1, testNull: null },
+                })
+                expect(topicServer.getTopicSync(testTopic)).toEqual(data)
+                loopbackServer.close()
+                done()
+            })
+            topicClient1.pub(testTopic, {
+                testString: "test",
+                testNested: { testNumber: 1, testNull: null },
+            })
+        })
+    }
+    test("clients with a mismatched codec should be rejected during the handshake", (done) => {
+        const loopbackServer = new LoopbackServer()
+        new TopicServer(loopbackServer, { codec: msgpackCodec })
+        const topicClient = new TopicClient(loopbackServer.createClient())
+        topicClient.subConnectionStatus((status) => {
+            if (status === "disconnected") {
+                expect(topicClient.getHandshakeError()).toMatch(/Codec mismatch/)
+                done()
+            }
+        })
+    })
+})
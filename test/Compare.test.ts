@@ -0,0 +1,121 @@
+import { createTopic, diff, LoopbackServer, mergeDiff, serverMetaChannel, TopicClient, TopicRejection, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Array diff tests", () => {
+    const waypoints = Array.from({ length: 100 }, (_, i) => ({ x: i, y: i }))
+    const cases: Array<[string, { x: number, y: number }[]]> = [
+        ["append", [...waypoints, { x: -1, y: -1 }]],
+        ["prepend", [{ x: -1, y: -1 }, ...waypoints]],
+        ["insert", [...waypoints.slice(0, 50), { x: -1, y: -1 }, ...waypoints.slice(50)]],
+        ["remove", [...waypoints.slice(0, 50), ...waypoints.slice(52)]],
+        ["replace", waypoints.map((point, i) => i === 10 ? { x: -1, y: -1 } : point)],
+        ["move", [...waypoints.slice(0, 10), ...waypoints.slice(11, 20), waypoints[10], ...waypoints.slice(20)]],
+    ]
+    test.each(cases)("%s should produce element level operations that merge back", (_, newWaypoints) => {
+        const result = diff({ waypoints }, { waypoints: newWaypoints }, { arrays: true })
+        expect(result.modified).toBeUndefined()
+        expect(result.arrays).toBeDefined()
+        expect(JSON.stringify(result).length).toBeLessThan(200)
+        expect(mergeDiff({ waypoints }, result)).toEqual({ waypoints: newWaypoints })
+        // Applying the same operations again, e.g. after a redelivery, changes nothing
+        expect(mergeDiff(mergeDiff({ waypoints }, result), result)).toEqual({ waypoints: newWaypoints })
+    })
+    test("arrays should stay atomic without the option", () => {
+        const result = diff({ waypoints }, { waypoints: [...waypoints, { x: -1, y: -1 }] })
+        expect(result.arrays).toBeUndefined()
+        expect(result.modified).toEqual({ waypoints: [...waypoints, { x: -1, y: -1 }] })
+    })
+    test("topics with array diffing should only send the changed elements", (done) => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        const listTopic = createTopic("list", z.object({
+            waypoints: z.array(z.object({ x: z.number(), y: z.number() })),
+        }), { arrayDiff: true })
+        topicServer.initChannels([listTopic])
+        topicServer.pub(listTopic, { waypoints })
+        const topicClient = new TopicClient(loopbackServer.createClient())
+        topicClient.sub(listTopic, (value, unsub, meta) => {
+            if (value.waypoints.length === waypoints.length) {
+                // Array operations are only sent once the client declared support for them
+                topicServer.sub(serverMetaChannel, (serverMeta, unsubMeta) => {
+                    if (serverMeta.clients[topicClient.id]?.features?.includes("arrays")) {
+                        unsubMeta()
+                        topicServer.pub(listTopic, { waypoints: [...waypoints, { x: -1, y: -1 }] })
+                    }
+                })
+                return
+            }
+            unsub()
+            expect(meta.diff.modified).toBeUndefined()
+            expect(meta.diff.arrays).toEqual({ waypoints: [{ op: "insert", index: waypoints.length, values: [{ x: -1, y: -1 }], length: waypoints.length }] })
+            expect(value.waypoints[waypoints.length]).toEqual({ x: -1, y: -1 })
+            topicClient.disconnect()
+            done()
+        })
+    })
+    test("peers without support for array operations should receive the whole arrays", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        const listTopic = createTopic("list", z.object({
+            waypoints: z.array(z.object({ x: z.number(), y: z.number() })),
+        }), { arrayDiff: true })
+        topicServer.initChannels([listTopic])
+        topicServer.pub(listTopic, { waypoints })
+        // Raw client standing in for an older version, which never declares any features
+        const legacyClient = loopbackServer.createClient()
+        const received = new Promise<any>(resolve => legacyClient.on("ch-tp-us-list", (data) => {
+            const msg = topicServer.options.codec.decode(data)
+            // The publish below, not the full topics of the handshake
+            if (msg.messageType === "topic" && (msg.arrays !== undefined || msg.modified?.waypoints?.length === waypoints.length + 1)) {
+                resolve(msg)
+            }
+        }))
+        const topicClient = new TopicClient(loopbackServer.createClient())
+        await topicClient.getTopic(listTopic, 1000)
+        topicClient.pub(listTopic, { waypoints: [...waypoints, { x: -1, y: -1 }] })
+        const last = await received
+        expect(topicServer.getTopicSync(listTopic)).toEqual({ waypoints: [...waypoints, { x: -1, y: -1 }] })
+        expect(last.arrays).toBeUndefined()
+        expect(last.modified).toEqual({ waypoints: [...waypoints, { x: -1, y: -1 }] })
+        topicClient.disconnect()
+        legacyClient.disconnect()
+    })
+    test("operations that do not fit the array should be reported", () => {
+        const result = diff({ waypoints }, { waypoints: [...waypoints, { x: -1, y: -1 }] }, { arrays: true })
+        const mismatches: string[][] = []
+        // Another version of the array, e.g. after missing a message
+        const merged = mergeDiff({ waypoints: waypoints.slice(1) }, result, (path) => mismatches.push(path))
+        expect(merged).toEqual({ waypoints: waypoints.slice(1) })
+        expect(mismatches).toEqual([["waypoints"]])
+    })
+    test("array operations that do not fit should be rejected and trigger a full topic request", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        const listTopic = createTopic("list", z.object({
+            waypoints: z.array(z.object({ x: z.number(), y: z.number() })),
+        }), { arrayDiff: true })
+        topicServer.initChannels([listTopic])
+        topicServer.pub(listTopic, { waypoints })
+        // Raw client standing in for a peer whose array diverged from the server
+        const rawClient = loopbackServer.createClient()
+        const requested = new Promise(resolve => rawClient.on("ch-tp-us-list", (data) => {
+            if (topicServer.options.codec.decode(data).messageType === "requestFullTopic") {
+                resolve(undefined)
+            }
+        }))
+        const rejected = new Promise<TopicRejection>(resolve => rawClient.on("topicRejected", resolve))
+        rawClient.emit("ch-tp-us-list", topicServer.options.codec.encode({
+            arrays: { waypoints: [{ op: "insert", index: 0, values: [{ x: -1, y: -1 }], length: waypoints.length - 1 }] },
+            timestamp: Date.now(),
+            messageType: "topic",
+            source: "raw",
+            seq: { node: "raw", number: 1 },
+            ack: true,
+        }))
+        const [rejection] = await Promise.all([rejected, requested])
+        expect(rejection).toMatchObject({ channel: "list", reason: "superseded", seq: 1 })
+        expect(topicServer.getTopicSync(listTopic)).toEqual({ waypoints })
+        rawClient.disconnect()
+    })
+})
@@ -0,0 +1,52 @@
+import { createTopic, LoopbackServer, TopicClient, TopicServer } from "../src"
+import { deflateCompressor } from "../src/node"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Topic compression tests", () => {
+    const loopbackServer = new LoopbackServer()
+    const topicServer = new TopicServer(loopbackServer, { compressors: [deflateCompressor] })
+    const bigTopic = createTopic("big", z.object({
+        points: z.array(z.number()),
+    }), { compression: { threshold: 1024 } })
+    topicServer.initChannels([bigTopic])
+    const points = Array.from({ length: 2000 }, (_, i) => i % 10)
+    test("large topic messages should be compressed on the wire", (done) => {
+        // Raw client to observe what the server sends
+        const rawClient = loopbackServer.createClient()
+        rawClient.on("ch-tp-us-big", (msg) => {
+            if (msg.messageType === "topic") {
+                expect(msg.compression).toBe("deflate")
+                expect(msg.modified).toBeUndefined()
+                expect(msg.payload.length).toBeLessThan(JSON.stringify(points).length)
+                rawClient.disconnect()
+                done()
+            }
+        })
+        rawClient.on("connect", () => {
+            topicServer.pub(bigTopic, { points })
+        })
+    })
+    test("clients should receive decompressed topics", (done) => {
+        const topicClient = new TopicClient(loopbackServer.createClient(), { compressors: [deflateCompressor] })
+        topicClient.sub(bigTopic, (data, unsub) => {
+            unsub()
+            expect(data.points).toEqual(points)
+            topicClient.disconnect()
+            done()
+        })
+    })
+    test("small topic messages should not be compressed", (done) => {
+        const rawClient = loopbackServer.createClient()
+        rawClient.on("ch-tp-us-big", (msg) => {
+            if (msg.messageType === "topic" && msg.modified?.points?.length === 1) {
+                expect(msg.compression).toBeUndefined()
+                rawClient.disconnect()
+                done()
+            }
+        })
+        rawClient.on("connect", () => {
+            topicServer.pub(bigTopic, { points: [1] })
+        })
+    })
+})
@@ -0,0 +1,121 @@
+import { createTopic, DiffResult, HLCTimestamp, JSONValue, LoopbackServer, LWWTopicState, mergeDiff, TopicClient, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Convergence tests", () => {
+    const permutations = <T>(items: T[]): T[][] => items.length <= 1 ? [items] : items.flatMap((item, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]))
+    const updates: Array<{ diff: DiffResult<JSONValue, JSONValue>, hlc: HLCTimestamp }> = [
+        { diff: { modified: { pose: { x: 1, y: 1 }, name: "a" } }, hlc: { wall: 1, counter: 0, node: "a" } },
+        { diff: { modified: { pose: { x: 2 } } }, hlc: { wall: 2, counter: 0, node: "b" } },
+        { diff: { modified: { name: "c" } }, hlc: { wall: 2, counter: 0, node: "c" } },
+        { diff: { deleted: { pose: null } }, hlc: { wall: 1, counter: 5, node: "d" } },
+        { diff: { modified: { pose: { y: 3 } } }, hlc: { wall: 0, counter: 0, node: "e" } },
+    ]
+    test("replicas should converge regardless of delivery order", () => {
+        const results = permutations(updates).map(order => {
+            const state = new LWWTopicState()
+            let value: JSONValue = {}
+            for (const update of order) {
+                value = mergeDiff(value, state.resolve(value, update.diff, update.hlc))
+            }
+            return value
+        })
+        // The deletion of pose wins over the older write of y, but not over the newer write of x
+        expect(results[0]).toEqual({ pose: { x: 2 }, name: "c" })
+        results.forEach(result => expect(result).toEqual(results[0]))
+    })
+    test("full topics with clocks should carry deletions", () => {
+        const source = new LWWTopicState()
+        let value: JSONValue = {}
+        for (const update of updates) {
+            value = mergeDiff(value, source.resolve(value, update.diff, update.hlc))
+        }
+        // A replica that missed the deletion still has the older value of y
+        const replica = new LWWTopicState()
+        let replicaValue: JSONValue = mergeDiff({}, replica.resolve({}, updates[4].diff, updates[4].hlc))
+        replicaValue = mergeDiff(replicaValue, replica.resolve(replicaValue, { modified: value }, { wall: 3, counter: 0, node: "a" }, source.serialize()))
+        expect(replicaValue).toEqual(value)
+    })
+    test("deletions should be collected once every peer sent a later change", () => {
+        const state = new LWWTopicState(true)
+        let value: JSONValue = {}
+        const apply = (diff: DiffResult<JSONValue, JSONValue>, hlc: HLCTimestamp) => {
+            value = mergeDiff(value, state.resolve(value, diff, hlc))
+        }
+        apply({ modified: { pose: { x: 1 }, name: "a" } }, { wall: 1, counter: 0, node: "a" })
+        apply({ deleted: { pose: null } }, { wall: 2, counter: 0, node: "a" })
+        apply({ modified: { name: "b" } }, { wall: 3, counter: 0, node: "b" })
+        // Peer a may still send changes older than the deletion
+        state.collectGarbage(["a", "b"])
+        expect(state.serialize()["/pose"]).toEqual({ wall: 2, counter: 0, node: "a" })
+        apply({ modified: { name: "a" } }, { wall: 4, counter: 0, node: "a" })
+        state.collectGarbage(["a", "b"])
+        expect(state.serialize()["/pose"]).toBeUndefined()
+        expect(state.horizon).toEqual({ wall: 3, counter: 0, node: "b" })
+        // Changes older than the horizon are dropped, newer ones still apply
+        apply({ modified: { pose: { x: 2 } } }, { wall: 1, counter: 5, node: "c" })
+        expect(value).toEqual({ name: "a" })
+        apply({ modified: { pose: { x: 3 } } }, { wall: 5, counter: 0, node: "c" })
+        expect(value).toEqual({ pose: { x: 3 }, name: "a" })
+    })
+    test("disconnected peers should not hold back the collection", () => {
+        const state = new LWWTopicState(true)
+        state.resolve({}, { deleted: { pose: null } }, { wall: 2, counter: 0, node: "a" })
+        state.resolve({}, { modified: { name: "a" } }, { wall: 3, counter: 0, node: "a" })
+        state.resolve({}, { modified: { name: "b" } }, { wall: 1, counter: 0, node: "b" })
+        state.collectGarbage(["a", "b"])
+        expect(state.serialize()["/pose"]).toBeDefined()
+        state.collectGarbage(["a"])
+        expect(state.serialize()["/pose"]).toBeUndefined()
+    })
+    test("replicas should only collect deletions once they received a full topic", () => {
+        const state = new LWWTopicState()
+        state.resolve({}, { deleted: { pose: null } }, { wall: 2, counter: 0, node: "a" })
+        state.resolve({}, { modified: { name: "a" } }, { wall: 3, counter: 0, node: "a" })
+        state.collectGarbage(["a"])
+        expect(state.horizon).toBeUndefined()
+        state.resolve({}, { modified: { name: "a" } }, { wall: 3, counter: 0, node: "a" }, { "/name": { wall: 3, counter: 0, node: "a" } })
+        state.collectGarbage(["a"])
+        expect(state.horizon).toEqual({ wall: 3, counter: 0, node: "a" })
+    })
+    test("full topics should carry collected deletions by their horizon", () => {
+        const source = new LWWTopicState(true)
+        let value: JSONValue = {}
+        for (const update of updates) {
+            value = mergeDiff(value, source.resolve(value, update.diff, update.hlc))
+        }
+        source.resolve(value, { modified: { name: "c" } }, { wall: 3, counter: 0, node: "a" })
+        source.collectGarbage(["a"])
+        expect(source.serialize()["/pose"]).toBeUndefined()
+        // A replica that missed the deletion still has the older value of y, and a property written after the horizon
+        const replica = new LWWTopicState()
+        let replicaValue: JSONValue = mergeDiff({}, replica.resolve({}, updates[4].diff, updates[4].hlc))
+        replicaValue = mergeDiff(replicaValue, replica.resolve(replicaValue, { modified: { speed: 1 } }, { wall: 4, counter: 0, node: "e" }))
+        replicaValue = mergeDiff(replicaValue, replica.resolve(replicaValue, { modified: value }, { wall: 5, counter: 0, node: "a" }, source.serialize(), source.horizon))
+        expect(replicaValue).toEqual({ ...(value as object), speed: 1 })
+        expect(replica.horizon).toEqual(source.horizon)
+    })
+    test("concurrent publishes from clients should converge", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        const sharedTopic = createTopic("shared", z.object({
+            value: z.string(),
+        }), { convergence: "lww" })
+        const settledTopic = createTopic("settled", z.record(z.boolean()))
+        topicServer.initChannels([sharedTopic, settledTopic])
+        topicServer.pub(sharedTopic, { value: "server" })
+        const clientA = new TopicClient(loopbackServer.createClient())
+        const clientB = new TopicClient(loopbackServer.createClient())
+        await Promise.all([clientA.getTopic(sharedTopic, 1000), clientB.getTopic(sharedTopic, 1000)])
+        clientA.pub(sharedTopic, { value: "a" })
+        clientB.pub(sharedTopic, { value: "b" })
+        // Messages are delivered in order, so both publishes were relayed once acknowledged publishes sent after them return
+        await Promise.all([clientA.pubAck(settledTopic, { a: true }), clientB.pubAck(settledTopic, { b: true })])
+        const value = topicServer.getTopicSync(sharedTopic).value
+        expect(["a", "b"]).toContain(value)
+        expect(clientA.getTopicSync(sharedTopic).value).toBe(value)
+        expect(clientB.getTopicSync(sharedTopic).value).toBe(value)
+        clientA.disconnect()
+        clientB.disconnect()
+    })
+})
@@ -0,0 +1,61 @@
+import { createDerivedTopic, createTopic, LoopbackServer, TopicClient, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Derived topic tests", () => {
+    const batteryTopic = createTopic("battery", z.object({ level: z.number() }))
+    const poseTopic = createTopic("pose", z.object({ x: z.number(), y: z.number() }))
+    const statusSchema = z.object({ level: z.number(), x: z.number(), lowBattery: z.boolean() })
+    test("derived topics should be published to the network", async () => {
+        const statusTopic = createDerivedTopic("status", [batteryTopic, poseTopic], (battery, pose) => ({
+            level: battery.level,
+            x: pose.x,
+            lowBattery: battery.level < 20,
+        }), statusSchema)
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([batteryTopic, poseTopic, statusTopic])
+        topicServer.derive(statusTopic)
+        const topicClient = new TopicClient(loopbackServer.createClient())
+        topicServer.pub(batteryTopic, { level: 50 })
+        // Not computed until every source has a value
+        expect(topicServer.hasValidTopic(statusTopic)).toBe(false)
+        topicServer.pub(poseTopic, { x: 1, y: 2 })
+        expect(await topicClient.getTopic(statusTopic, 1000)).toEqual({ level: 50, x: 1, lowBattery: false })
+        const updated = new Promise(resolve => topicClient.sub(statusTopic, (status, unsub) => {
+            unsub()
+            resolve(status)
+        }, false))
+        topicServer.pub(batteryTopic, { level: 10 })
+        expect(await updated).toEqual({ level: 10, x: 1, lowBattery: true })
+        topicClient.disconnect()
+    })
+    test("local derived topics should stay within the client", async () => {
+        const statusTopic = createDerivedTopic("localStatus", [batteryTopic, poseTopic], (battery, pose) => ({
+            level: battery.level,
+            x: pose.x,
+            lowBattery: battery.level < 20,
+        }), statusSchema, { local: true })
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([batteryTopic, poseTopic, statusTopic])
+        const topicClient = new TopicClient(loopbackServer.createClient())
+        const stop = topicClient.derive(statusTopic)
+        topicServer.pub(batteryTopic, { level: 50 })
+        topicServer.pub(poseTopic, { x: 1, y: 2 })
+        expect(await topicClient.getTopic(statusTopic, 1000)).toEqual({ level: 50, x: 1, lowBattery: false })
+        expect(topicServer.hasValidTopic(statusTopic)).toBe(false)
+        stop()
+        // Subscribed after the derivation, so it would have been computed again by the time this is called
+        const received = new Promise(resolve => topicClient.sub(batteryTopic, (battery, unsub) => {
+            if (battery.level === 10) {
+                unsub()
+                resolve(battery)
+            }
+        }))
+        topicServer.pub(batteryTopic, { level: 10 })
+        await received
+        expect(topicClient.getTopicSync(statusTopic).level).toBe(50)
+        topicClient.disconnect()
+    })
+})
@@ -0,0 +1,87 @@
+import { BaseClient, createTopic, DiffResult, JSONValue, LoopbackServer, serverMetaChannel, TopicChannel, TopicClient, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+/**
+ * Resolves with the topic as seen by the client once it matches the predicate
+ */
+const until = <T extends JSONValue>(client: BaseClient<any>, channel: TopicChannel<T>, predicate: (topic: T) => boolean) => new Promise<T>(resolve => {
+    client.sub(channel, (topic, unsub) => {
+        if (predicate(topic)) {
+            unsub()
+            resolve(topic)
+        }
+    })
+})
+
+/**
+ * Client that claims to be another client in the messages it publishes
+ */
+class SpoofingClient extends TopicClient {
+    spoofedSource?: string
+
+    protected wrapTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, diff: DiffResult<T, T>, source?: string) {
+        return super.wrapTopicMessage(channel, diff, this.spoofedSource ?? source)
+    }
+}
+
+describe("Ephemeral publishing tests", () => {
+    const presenceTopic = createTopic("presence", z.object({
+        robots: z.record(z.object({ x: z.number() })),
+    }))
+    test("ephemeral contributions should be deleted when their client disconnects", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([presenceTopic])
+        topicServer.pub(presenceTopic, { robots: {} })
+        const ephemeralClient = new TopicClient(loopbackServer.createClient())
+        const persistentClient = new TopicClient(loopbackServer.createClient())
+        await Promise.all([ephemeralClient.getTopic(presenceTopic, 1000), persistentClient.getTopic(presenceTopic, 1000)])
+        ephemeralClient.pubEphemeral(presenceTopic, { robots: { [ephemeralClient.id]: { x: 1 } } })
+        persistentClient.pubEphemeral(presenceTopic, { robots: { [persistentClient.id]: { x: 1 } } })
+        await until(topicServer, presenceTopic, topic => Object.keys(topic.robots).length === 2)
+        // Updates by the contributor keep the property ephemeral, updates by others take it over
+        ephemeralClient.pubEphemeral(presenceTopic, { robots: { [ephemeralClient.id]: { x: 2 } } })
+        persistentClient.pub(presenceTopic, { robots: { [persistentClient.id]: { x: 2 } } }, true, false)
+        await until(topicServer, presenceTopic, topic => Object.values(topic.robots).every(robot => robot.x === 2))
+        expect(Object.keys(topicServer.getTopicSync(presenceTopic).robots).sort()).toEqual([ephemeralClient.id, persistentClient.id].sort())
+        // The server handles disconnects of loopback clients synchronously
+        ephemeralClient.disconnect()
+        persistentClient.disconnect()
+        expect(topicServer.getTopicSync(presenceTopic)).toEqual({ robots: { [persistentClient.id]: { x: 2 } } })
+    })
+    test("other clients should see the contributions deleted", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([presenceTopic])
+        topicServer.pub(presenceTopic, { robots: {} })
+        const ephemeralClient = new TopicClient(loopbackServer.createClient())
+        const observer = new TopicClient(loopbackServer.createClient())
+        await Promise.all([ephemeralClient.getTopic(presenceTopic, 1000), observer.getTopic(presenceTopic, 1000)])
+        ephemeralClient.pubEphemeral(presenceTopic, { robots: { [ephemeralClient.id]: { x: 1 } } })
+        const seen = await until(observer, presenceTopic, topic => ephemeralClient.id in topic.robots)
+        expect(seen.robots[ephemeralClient.id]).toEqual({ x: 1 })
+        ephemeralClient.disconnect()
+        expect(await until(observer, presenceTopic, topic => !(ephemeralClient.id in topic.robots))).toEqual({ robots: {} })
+        observer.disconnect()
+    })
+    test("ephemeral contributions should be attributed to the client that sent them", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([presenceTopic])
+        topicServer.pub(presenceTopic, { robots: {} })
+        const victim = new TopicClient(loopbackServer.createClient())
+        const attacker = new SpoofingClient(loopbackServer.createClient())
+        await Promise.all([victim.getTopic(presenceTopic, 1000), attacker.getTopic(presenceTopic, 1000)])
+        // Claiming to be the bridge the victim is reachable through, and publishing as the victim
+        attacker.pub(serverMetaChannel, { clients: { [victim.id]: { services: {}, via: attacker.id } } }, true, false)
+        attacker.spoofedSource = victim.id
+        attacker.pubEphemeral(presenceTopic, { robots: { [attacker.id]: { x: 1 } } })
+        await until(topicServer, presenceTopic, topic => attacker.id in topic.robots)
+        // The server handles disconnects of loopback clients synchronously
+        victim.disconnect()
+        expect(topicServer.getTopicSync(presenceTopic).robots[attacker.id]).toEqual({ x: 1 })
+        attacker.disconnect()
+        expect(topicServer.getTopicSync(presenceTopic)).toEqual({ robots: {} })
+    })
+})
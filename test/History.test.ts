@@ -0,0 +1,56 @@
+import { createTopic, LoopbackServer, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe("Topic history tests", () => {
+    const historyTopic = createTopic("history", z.object({
+        position: z.number(),
+        status: z.string().optional(),
+    }), { history: { size: 3 } })
+    const plainTopic = createTopic("plain", z.object({
+        position: z.number(),
+    }))
+    test("past values should be rebuilt from the history", async () => {
+        const topicServer = new TopicServer(new LoopbackServer())
+        topicServer.initChannels([historyTopic])
+        const beforeFirst = Date.now() - 1
+        topicServer.pub(historyTopic, { position: 1, status: "ok" })
+        await sleep(5)
+        const afterFirst = Date.now()
+        await sleep(5)
+        topicServer.pub(historyTopic, { position: 2 })
+        await sleep(5)
+        const afterSecond = Date.now()
+        expect(topicServer.getTopicAt(historyTopic, beforeFirst)).toBeUndefined()
+        expect(topicServer.getTopicAt(historyTopic, afterFirst)).toEqual({ position: 1, status: "ok" })
+        expect(topicServer.getTopicAt(historyTopic, afterSecond)).toEqual({ position: 2 })
+        const history = topicServer.getHistory(historyTopic, { since: afterFirst })
+        expect(history.length).toBe(1)
+        expect(history[0].value).toEqual({ position: 2 })
+        expect(history[0].valid).toBe(true)
+        expect(history[0].diff.deleted).toEqual({ status: null })
+    })
+    test("evicted diffs should be folded into the base value", async () => {
+        const topicServer = new TopicServer(new LoopbackServer())
+        topicServer.initChannels([historyTopic])
+        const timestamps: number[] = []
+        for (let i = 1; i <= 5; i++) {
+            topicServer.pub(historyTopic, { position: i })
+            await sleep(5)
+            timestamps.push(Date.now())
+            await sleep(5)
+        }
+        expect(topicServer.getHistory(historyTopic).map(state => state.value)).toEqual([{ position: 3 }, { position: 4 }, { position: 5 }])
+        expect(topicServer.getTopicAt(historyTopic, timestamps[0])).toBeUndefined()
+        expect(topicServer.getTopicAt(historyTopic, timestamps[1])).toEqual({ position: 2 })
+        expect(topicServer.getTopicAt(historyTopic, timestamps[3])).toEqual({ position: 4 })
+    })
+    test("history queries should throw for channels without history", () => {
+        const topicServer = new TopicServer(new LoopbackServer())
+        topicServer.initChannels([plainTopic])
+        expect(() => topicServer.getTopicAt(plainTopic, Date.now())).toThrow()
+        expect(() => topicServer.getHistory(plainTopic)).toThrow()
+    })
+})
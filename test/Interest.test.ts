@@ -0,0 +1,60 @@
+import { createTopic, LoopbackServer, TopicClient, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Interest management tests", () => {
+    const poseTopic = createTopic("pose", z.object({ x: z.number() }))
+    const pointCloudTopic = createTopic("pointCloud", z.object({ points: z.array(z.number()) }))
+    test("topics should only be sent to interested clients", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([poseTopic, pointCloudTopic])
+        const dashboardSocket = loopbackServer.createClient()
+        const dashboard = new TopicClient(dashboardSocket)
+        const robot = new TopicClient(loopbackServer.createClient())
+        const legacySocket = loopbackServer.createClient()
+        const received = { dashboard: 0, legacy: 0 }
+        dashboardSocket.on("ch-tp-us-pointCloud", () => received.dashboard++)
+        const relayed = new Promise(resolve => legacySocket.on("ch-tp-us-pointCloud", () => {
+            received.legacy++
+            resolve(undefined)
+        }))
+        const poses: number[] = []
+        const posed = new Promise(resolve => dashboard.sub(poseTopic, (pose) => {
+            poses.push(pose.x)
+            resolve(undefined)
+        }))
+        await Promise.all([dashboard.getServerID(), robot.getServerID()])
+        robot.pub(poseTopic, { x: 1 })
+        robot.pub(pointCloudTopic, { points: [1, 2, 3] })
+        // The dashboard connected before the legacy socket, so it would have been sent the point cloud first
+        await Promise.all([posed, relayed])
+        expect(poses).toEqual([1])
+        expect(received.dashboard).toBe(0)
+        // Sockets that never declare their interests receive every topic
+        expect(received.legacy).toBeGreaterThan(0)
+        // Interest is declared when the client first uses a channel
+        expect(await dashboard.getTopic(pointCloudTopic, 1000)).toEqual({ points: [1, 2, 3] })
+        dashboard.disconnect()
+        robot.disconnect()
+        legacySocket.disconnect()
+    })
+    test("topics the server does not know yet should not be echoed back empty", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([poseTopic])
+        const robot = new TopicClient(loopbackServer.createClient())
+        robot.pub(poseTopic, { x: 1 })
+        const poses: number[] = []
+        const updated = new Promise(resolve => robot.sub(poseTopic, (pose) => {
+            poses.push(pose.x)
+            resolve(undefined)
+        }, false))
+        await topicServer.getTopic(poseTopic, 1000)
+        // Sent after anything the server sent in reply to the request of the robot
+        topicServer.pub(poseTopic, { x: 2 })
+        await updated
+        expect(poses).toEqual([2])
+        robot.disconnect()
+    })
+})
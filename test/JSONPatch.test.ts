@@ -0,0 +1,70 @@
+import { applyPatch, createTopic, diff, diffToPatch, JSONPatchOperation, LoopbackServer, patchToDiff, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("JSON Patch tests", () => {
+    const oldValue = { name: "robot", pose: { x: 1, y: 2 }, tags: ["a", "b"], "a/b": 1 }
+    const newValue = { name: "robot", pose: { x: 3 }, tags: ["a", "b", "c"], extra: { nested: true } }
+    test("diffs should convert to patches that give the same result", () => {
+        for (const options of [{}, { arrays: true }]) {
+            const result = diff(oldValue, newValue, options)
+            const patch = diffToPatch(oldValue, result)
+            expect(applyPatch(oldValue, patch)).toEqual(newValue)
+        }
+        expect(diffToPatch(oldValue, diff(oldValue, newValue, { arrays: true }))).toContainEqual({ op: "add", path: "/tags/2", value: "c" })
+        expect(diffToPatch(oldValue, diff(oldValue, newValue))).toContainEqual({ op: "remove", path: "/a~1b" })
+    })
+    test("patches should convert to diffs", () => {
+        const patch: JSONPatchOperation[] = [
+            { op: "test", path: "/name", value: "robot" },
+            { op: "replace", path: "/pose/x", value: 3 },
+            { op: "move", from: "/pose/y", path: "/y" },
+            { op: "copy", from: "/tags", path: "/tagsCopy" },
+            { op: "add", path: "/tags/-", value: "c" },
+        ]
+        const result = patchToDiff(oldValue, patch)
+        expect(result.modified).toEqual({ pose: { x: 3 }, y: 2, tagsCopy: ["a", "b"], tags: ["a", "b", "c"] })
+        expect(result.deleted).toEqual({ pose: { y: null } })
+    })
+    test("invalid patches should throw", () => {
+        expect(() => applyPatch(oldValue, [{ op: "test", path: "/name", value: "other" }])).toThrow()
+        expect(() => applyPatch(oldValue, [{ op: "remove", path: "/missing" }])).toThrow()
+        expect(() => applyPatch(oldValue, [{ op: "add", path: "/missing/x", value: 1 }])).toThrow()
+        expect(() => applyPatch(oldValue, [{ op: "add", path: "/tags/5", value: 1 }])).toThrow()
+    })
+    test("patches should be published and delivered to patch subscribers", (done) => {
+        const topicServer = new TopicServer(new LoopbackServer())
+        const testTopic = createTopic("patch", z.object({
+            pose: z.object({ x: z.number(), y: z.number() }),
+        }))
+        topicServer.initChannels([testTopic])
+        topicServer.pub(testTopic, { pose: { x: 1, y: 2 } })
+        let updates = 0
+        topicServer.sub(testTopic, (value, unsub, meta) => {
+            updates++
+            if (updates === 1) {
+                expect(meta.patch).toEqual([{ op: "replace", path: "", value: { pose: { x: 1, y: 2 } } }])
+                return
+            }
+            expect(value).toEqual({ pose: { x: 5, y: 2 } })
+            expect(meta.patch).toEqual([{ op: "add", path: "/pose/x", value: 5 }])
+            unsub()
+            done()
+        }, true, { patch: true })
+        topicServer.pubPatch(testTopic, [{ op: "replace", path: "/pose/x", value: 5 }])
+    })
+    test("patches should match the delivered diff", () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        const robotsTopic = createTopic("robots", z.object({ robots: z.record(z.object({ x: z.number() })) }))
+        topicServer.initChannels([robotsTopic])
+        topicServer.pub(robotsTopic, { robots: { r1: { x: 1 }, r2: { x: 2 } } })
+        const previous = topicServer.getTopicSync(robotsTopic)
+        const updates: Array<{ value: unknown, diff: unknown, patch?: JSONPatchOperation[] }> = []
+        topicServer.sub(robotsTopic, (value, unsub, { diff, patch }) => updates.push({ value, diff, patch }), false, { patch: true })
+        topicServer.pub(robotsTopic, { robots: { r1: { x: 3 } } })
+        expect(updates.length).toBe(1)
+        expect(updates[0].patch).toEqual([{ op: "remove", path: "/robots/r2" }, { op: "add", path: "/robots/r1/x", value: 3 }])
+        expect(applyPatch(previous, updates[0].patch!)).toEqual(updates[0].value)
+    })
+})
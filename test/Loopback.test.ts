@@ -0,0 +1,82 @@
+import { createService, createTopic, LoopbackServer, serverMetaChannel, TopicClient, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Loopback transport tests", () => {
+    const loopbackServer = new LoopbackServer()
+    const topicServer = new TopicServer(loopbackServer)
+    const testTopicSchema = z.object({
+        testString: z.string(),
+        testNumber: z.number(),
+    })
+    const testTopic = createTopic("test", testTopicSchema)
+    const testTopic2 = createTopic("test2", testTopicSchema)
+    const testService = createService("test", z.object({
+        a: z.number(),
+        b: z.number()
+    }),
+        z.number()
+    )
+    topicServer.initChannels([testTopic, testTopic2, testService])
+    const topicClient1 = new TopicClient(loopbackServer.createClient())
+    const topicClient2 = new TopicClient(loopbackServer.createClient())
+    test("clients should connect and appear in server meta", (done) => {
+        topicServer.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[topicClient1.id] !== undefined && meta.clients[topicClient2.id] !== undefined) {
+                unsub()
+                done()
+            }
+        })
+    })
+    test("server should be able to publish topic, and clients should receive it", (done) => {
+        topicServer.pub(testTopic, {
+            testString: "test",
+            testNumber: 1,
+        })
+        topicClient1.sub(testTopic, (data, unsub) => {
+            unsub()
+            expect(data).toEqual({
+                testString: "test",
+                testNumber: 1,
+            })
+            done()
+        })
+    })
+    test("client1 should be able to publish topic, and client2 should receive it", (done) => {
+        topicClient2.sub(testTopic2, (data, unsub) => {
+            unsub()
+            expect(data).toEqual({
+                testString: "test2",
+                testNumber: 2,
+            })
+            done()
+        })
+        topicClient1.pub(testTopic2, {
+            testString: "test2",
+            testNumber: 2,
+        })
+    })
+    test("client1 should be able to call a service served by client2", async () => {
+        topicClient2.srv(testService, ({ a, b }) => a + b)
+        await expect(topicClient1.req(testService, topicClient2.id, { a: 1, b: 2 })).resolves.toBe(3)
+    })
+    test("delivery should be asynchronous", () => {
+        const client = loopbackServer.createClient()
+        let connected = false
+        client.on("connect", () => {
+            connected = true
+        })
+        expect(connected).toBe(false)
+        client.disconnect()
+    })
+    test("disconnected clients should be removed from server meta", (done) => {
+        topicClient2.disconnect()
+        topicServer.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[topicClient2.id] === undefined) {
+                unsub()
+                expect(Object.keys(meta.clients)).toContain(topicClient1.id)
+                done()
+            }
+        })
+    })
+})
@@ -0,0 +1,104 @@
+import { createService, createTopic, MessagePortClientAdapter, MessagePortServerAdapter, serverMetaChannel, TopicClient, TopicServer } from "../src"
+import { afterAll, describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+import { MessageChannel, Worker } from "worker_threads"
+import { join } from "path"
+
+describe("MessagePort adapter tests", () => {
+    const portServer = new MessagePortServerAdapter()
+    const topicServer = new TopicServer(portServer)
+    const testTopicSchema = z.object({
+        testString: z.string(),
+        testNumber: z.number(),
+    })
+    const testTopic = createTopic("test", testTopicSchema)
+    const testService = createService("test", z.object({
+        a: z.number(),
+        b: z.number()
+    }),
+        z.number()
+    )
+    topicServer.initChannels([testTopic, testService])
+    function createClient() {
+        const { port1, port2 } = new MessageChannel()
+        portServer.addPort(port1)
+        return new TopicClient(new MessagePortClientAdapter(port2))
+    }
+    const topicClient1 = createClient()
+    const topicClient2 = createClient()
+    afterAll(() => {
+        topicClient1.disconnect()
+    })
+    test("clients should connect and appear in server meta", (done) => {
+        topicServer.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[topicClient1.id] !== undefined && meta.clients[topicClient2.id] !== undefined) {
+                unsub()
+                done()
+            }
+        })
+    })
+    test("client1 should be able to publish topic, and client2 should receive it", (done) => {
+        topicClient2.sub(testTopic, (data, unsub) => {
+            unsub()
+            expect(data).toEqual({
+                testString: "test",
+                testNumber: 1,
+            })
+            done()
+        })
+        topicClient1.pub(testTopic, {
+            testString: "test",
+            testNumber: 1,
+        })
+    })
+    test("client1 should be able to call a service served by client2", async () => {
+        topicClient2.srv(testService, ({ a, b }) => a + b)
+        await expect(topicClient1.req(testService, topicClient2.id, { a: 1, b: 2 })).resolves.toBe(3)
+    })
+    test("closing a port should remove the client from server meta", (done) => {
+        topicClient2.disconnect()
+        topicServer.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[topicClient2.id] === undefined) {
+                unsub()
+                done()
+            }
+        })
+    })
+    test("a client in a worker thread should exchange topics with the server", async () => {
+        const countSchema = z.object({ count: z.number() })
+        const pingTopic = createTopic("ping", countSchema)
+        const pongTopic = createTopic("pong", countSchema)
+        topicServer.initChannels([pingTopic, pongTopic])
+        // The worker answers every ping with a pong of the same count
+        const workerSource = `
+            require("ts-node").register({ transpileOnly: true })
+            const { workerData } = require("worker_threads")
+            const { createTopic, MessagePortClientAdapter, TopicClient } = require(workerData.src)
+            const { z } = require("zod")
+            const countSchema = z.object({ count: z.number() })
+            const pingTopic = createTopic("ping", countSchema)
+            const pongTopic = createTopic("pong", countSchema)
+            const topicClient = new TopicClient(new MessagePortClientAdapter(workerData.port))
+            topicClient.sub(pingTopic, ({ count }) => topicClient.pub(pongTopic, { count }))
+        `
+        const { port1, port2 } = new MessageChannel()
+        portServer.addPort(port1)
+        const worker = new Worker(workerSource, { eval: true, workerData: { src: join(__dirname, "..", "src"), port: port2 }, transferList: [port2] })
+        const ponged = new Promise<{ value: unknown, source: string }>(resolve => topicServer.sub(pongTopic, (value, unsub, meta) => {
+            unsub()
+            resolve({ value, source: meta.source })
+        }))
+        topicServer.pub(pingTopic, { count: 1 })
+        const { value, source } = await ponged
+        expect(value).toEqual({ count: 1 })
+        // Terminating the worker closes its port, which disconnects the client
+        const disconnected = new Promise<void>(resolve => topicServer.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[source] === undefined) {
+                unsub()
+                resolve()
+            }
+        }, false))
+        await worker.terminate()
+        await disconnected
+    }, 20000)
+})
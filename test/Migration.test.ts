@@ -0,0 +1,70 @@
+import { BaseClient, createTopic, JSONValue, LoopbackServer, migrateDiff, migrateValue, TopicChannel, TopicClient, TopicMigrations, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+/**
+ * Resolves with the topic as seen by the client once it matches the predicate
+ */
+const until = <T extends JSONValue>(client: BaseClient<any>, channel: TopicChannel<T>, predicate: (topic: T) => boolean) => new Promise<T>(resolve => {
+    client.sub(channel, (topic, unsub) => {
+        if (predicate(topic)) {
+            unsub()
+            resolve(topic)
+        }
+    })
+})
+
+describe("Migration tests", () => {
+    const migrations: TopicMigrations = {
+        2: {
+            up: ({ x, y }) => ({ position: { x, y } }),
+            down: ({ position }) => ({ x: position.x, y: position.y }),
+        },
+        3: {
+            up: ({ position }) => ({ position, heading: 0 }),
+            down: ({ position }) => ({ position }),
+        },
+    }
+    const poseTopicV1 = createTopic("pose", z.object({ x: z.number(), y: z.number() }), { migrations })
+    const poseTopicV2 = createTopic("pose", z.object({ position: z.object({ x: z.number(), y: z.number() }) }), { version: 2, migrations })
+    test("values and diffs should be migrated between versions", () => {
+        expect(migrateValue({ x: 1, y: 2 }, 1, 3, migrations)).toEqual({ position: { x: 1, y: 2 }, heading: 0 })
+        expect(migrateValue({ position: { x: 1, y: 2 }, heading: 90 }, 3, 1, migrations)).toEqual({ x: 1, y: 2 })
+        expect(() => migrateValue({ x: 1, y: 2 }, 1, 4, migrations)).toThrow("No migration from version 3 to 4")
+        expect(migrateDiff({ position: { x: 1, y: 2 } }, { modified: { x: 5 } }, 1, 2, migrations)).toEqual({ modified: { position: { x: 5 } } })
+        // Topics without a value yet take the whole migrated value
+        expect(migrateDiff({}, { modified: { x: 1, y: 2 } }, 1, 2, migrations)).toEqual({ modified: { position: { x: 1, y: 2 } } })
+    })
+    test("clients of different versions should share a topic", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        const settledTopic = createTopic("settled", z.record(z.boolean()))
+        topicServer.initChannels([poseTopicV2, settledTopic])
+        topicServer.pub(poseTopicV2, { position: { x: 0, y: 0 } })
+        const oldClient = new TopicClient(loopbackServer.createClient())
+        const newClient = new TopicClient(loopbackServer.createClient())
+        expect(await oldClient.getTopic(poseTopicV1, 1000)).toEqual({ x: 0, y: 0 })
+        expect(await newClient.getTopic(poseTopicV2, 1000)).toEqual({ position: { x: 0, y: 0 } })
+        // Messages are delivered in order, so the full topic exchange of the handshakes settled once acknowledged publishes sent after it return
+        await Promise.all([oldClient.pubAck(settledTopic, { old: true }), newClient.pubAck(settledTopic, { new: true })])
+        oldClient.pub(poseTopicV1, { x: 1, y: 2 })
+        expect(await until(newClient, poseTopicV2, pose => pose.position.x === 1)).toEqual({ position: { x: 1, y: 2 } })
+        expect(topicServer.getTopicSync(poseTopicV2)).toEqual({ position: { x: 1, y: 2 } })
+        newClient.pub(poseTopicV2, { position: { x: 3, y: 2 } })
+        expect(await until(oldClient, poseTopicV1, pose => pose.x === 3)).toEqual({ x: 3, y: 2 })
+        oldClient.disconnect()
+        newClient.disconnect()
+    })
+    test("publishes the server cannot migrate should be rejected", async () => {
+        const poseTopicV4 = createTopic("pose", z.object({ position: z.object({ x: z.number(), y: z.number() }), heading: z.number(), speed: z.number() }), { version: 4, migrations })
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([poseTopicV2])
+        topicServer.pub(poseTopicV2, { position: { x: 0, y: 0 } })
+        const newerClient = new TopicClient(loopbackServer.createClient())
+        await newerClient.getServerID()
+        await expect(newerClient.pubAck(poseTopicV4, { position: { x: 1, y: 0 }, heading: 0, speed: 1 })).rejects.toThrow("migrated")
+        expect(topicServer.getTopicSync(poseTopicV2)).toEqual({ position: { x: 0, y: 0 } })
+        newerClient.disconnect()
+    })
+})
@@ -0,0 +1,47 @@
+import { createTopic, diffTouchesPath, LoopbackServer, scopeDiff, TopicClient, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Path subscription tests", () => {
+    test("diffs should be matched and narrowed down to paths", () => {
+        const path = ["robots", "r1", "pose"]
+        expect(diffTouchesPath({ modified: { robots: { r1: { pose: { x: 1 } } } } }, path)).toBe(true)
+        expect(diffTouchesPath({ modified: { robots: { r2: { pose: { x: 1 } } } } }, path)).toBe(false)
+        expect(diffTouchesPath({ deleted: { robots: { r1: null } } }, path)).toBe(true)
+        expect(diffTouchesPath({ modified: { robots: { r1: { battery: 50 } } } }, path)).toBe(false)
+        expect(diffTouchesPath({ arrays: { robots: { r1: { pose: [{ op: "remove", index: 0, count: 1, length: 1 }] } } } }, path)).toBe(true)
+        expect(scopeDiff({ modified: { robots: { r1: { pose: { x: 1 }, battery: 50 } } } }, path, { x: 1, y: 0 })).toEqual({ modified: { x: 1 } })
+        expect(scopeDiff({ deleted: { robots: null } }, path, undefined)).toEqual({ deleted: null })
+    })
+    test("path subscribers should only be called when their path changes", async () => {
+        const fleetTopic = createTopic("fleet", z.object({
+            robots: z.record(z.object({
+                pose: z.object({ x: z.number(), y: z.number() }),
+                battery: z.number(),
+            })),
+        }))
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([fleetTopic])
+        topicServer.pub(fleetTopic, { robots: { r1: { pose: { x: 0, y: 0 }, battery: 100 } } })
+        const topicClient = new TopicClient(loopbackServer.createClient())
+        const poses: Array<{ x: number, y: number } | undefined> = []
+        topicClient.subPath(fleetTopic, ["robots", "r1", "pose"], (pose) => {
+            poses.push(pose)
+        })
+        const removed = new Promise(resolve => topicClient.sub(fleetTopic, (fleet, unsub) => {
+            if (!("r1" in fleet.robots)) {
+                unsub()
+                resolve(undefined)
+            }
+        }, false))
+        await topicClient.getTopic(fleetTopic, 1000)
+        topicServer.pub(fleetTopic, { robots: { r1: { pose: { x: 0, y: 0 }, battery: 90 } } })
+        topicServer.pub(fleetTopic, { robots: { r1: { pose: { x: 1, y: 0 }, battery: 90 } } })
+        topicServer.pub(fleetTopic, { robots: { r1: { pose: { x: 1, y: 0 }, battery: 90 }, r2: { pose: { x: 5, y: 5 }, battery: 100 } } })
+        topicServer.pub(fleetTopic, { robots: { r2: { pose: { x: 5, y: 5 }, battery: 100 } } })
+        await removed
+        expect(poses).toEqual([{ x: 0, y: 0 }, { x: 1, y: 0 }, undefined])
+        topicClient.disconnect()
+    })
+})
@@ -0,0 +1,103 @@
+import { changedPaths, createTopic, DiffResult, JSONValue, LoopbackServer, permissionFor, serverMetaChannel, TopicChannel, TopicClient, TopicRejection, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+/**
+ * Client that claims to be another client in the messages it publishes
+ */
+class SpoofingClient extends TopicClient {
+    spoofedSource?: string
+
+    protected wrapTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, diff: DiffResult<T, T>, source?: string) {
+        return super.wrapTopicMessage(channel, diff, this.spoofedSource ?? source)
+    }
+}
+
+describe("Permission tests", () => {
+    const rejected = (client: TopicClient, count: number) => new Promise<TopicRejection[]>(resolve => {
+        const rejections: TopicRejection[] = []
+        client.subRejections(rejection => {
+            rejections.push(rejection)
+            if (rejections.length === count) {
+                resolve(rejections)
+            }
+        })
+    })
+    test("changed paths and subtree permissions should be resolved", () => {
+        expect(changedPaths({ a: 1, b: { c: 2, d: 3 } }, { a: 1, b: { c: 4 }, e: [1] })).toEqual([["b", "c"], ["b", "d"], ["e"]])
+        const permissions = { publish: "owner" as const, subtrees: { "/robots": "any" as const, "/robots/r1": ["r1"] } }
+        expect(permissionFor(permissions, ["name"])).toBe("owner")
+        expect(permissionFor(permissions, ["robots", "r2", "x"])).toBe("any")
+        expect(permissionFor(permissions, ["robots", "r1", "x"])).toEqual(["r1"])
+    })
+    test("only the owner should be able to publish", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        const ownedTopic = createTopic("owned", z.object({
+            value: z.number(),
+        }), { permissions: { publish: "owner" } })
+        topicServer.initChannels([ownedTopic])
+        const owner = new TopicClient(loopbackServer.createClient())
+        const other = new TopicClient(loopbackServer.createClient())
+        const rejections = rejected(other, 1)
+        await Promise.all([owner.getServerID(), other.getServerID()])
+        owner.pub(ownedTopic, { value: 1 })
+        await other.getTopic(ownedTopic, 1000)
+        expect(topicServer.getTopicOwner(ownedTopic)).toBe(owner.id)
+        other.pub(ownedTopic, { value: 2 })
+        const [rejection] = await rejections
+        expect(topicServer.getTopicSync(ownedTopic)).toEqual({ value: 1 })
+        expect(owner.getTopicSync(ownedTopic)).toEqual({ value: 1 })
+        // The rejected change is rolled back by resyncing the topic
+        expect(await other.getTopic(ownedTopic, 1000)).toEqual({ value: 1 })
+        expect(rejection).toMatchObject({ channel: "owned", reason: "unauthorized" })
+        owner.disconnect()
+        other.disconnect()
+    })
+    test("server permissions should override channel permissions, per subtree", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        const robotsTopic = createTopic("robots", z.object({
+            robots: z.record(z.object({ x: z.number() })),
+        }))
+        topicServer.initChannels([robotsTopic])
+        topicServer.pub(robotsTopic, { robots: {} })
+        // Every client may only publish its own robot
+        topicServer.setTopicPermissions(robotsTopic, { publish: [], subtrees: { "/robots": (clientID, path) => path[1] === clientID } })
+        const client = new TopicClient(loopbackServer.createClient())
+        const rejections = rejected(client, 1)
+        await client.getTopic(robotsTopic, 1000)
+        await client.pubAck(robotsTopic, { robots: { [client.id]: { x: 1 } } })
+        expect(topicServer.getTopicSync(robotsTopic).robots[client.id]).toEqual({ x: 1 })
+        client.pub(robotsTopic, { robots: { [client.id]: { x: 1 }, other: { x: 2 } } })
+        const [rejection] = await rejections
+        expect(topicServer.getTopicSync(robotsTopic).robots.other).toBeUndefined()
+        expect(rejection.message).toContain("/robots/other")
+        client.disconnect()
+    })
+    test("clients should not be able to publish as another client", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        const ownedTopic = createTopic("owned", z.object({
+            value: z.number(),
+        }), { permissions: { publish: "owner" } })
+        topicServer.initChannels([ownedTopic])
+        const owner = new TopicClient(loopbackServer.createClient())
+        const attacker = new SpoofingClient(loopbackServer.createClient())
+        const rejections = rejected(attacker, 2)
+        const metaRejected = rejected(attacker, 1)
+        await Promise.all([owner.getServerID(), attacker.getServerID()])
+        owner.pub(ownedTopic, { value: 1 })
+        await attacker.getTopic(ownedTopic, 1000)
+        // Claiming to be the bridge the owner is reachable through
+        attacker.pub(serverMetaChannel, { clients: { [owner.id]: { services: {}, via: attacker.id } } }, true, false)
+        await metaRejected
+        expect(topicServer.getTopicSync(serverMetaChannel).clients[owner.id].via).toBeUndefined()
+        attacker.spoofedSource = owner.id
+        attacker.pub(ownedTopic, { value: 2 })
+        expect((await rejections).map(rejection => [rejection.channel, rejection.reason])).toEqual([["serverMeta", "unauthorized"], ["owned", "unauthorized"]])
+        expect(topicServer.getTopicSync(ownedTopic)).toEqual({ value: 1 })
+        owner.disconnect()
+        attacker.disconnect()
+    })
+})
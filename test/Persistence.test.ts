@@ -0,0 +1,51 @@
+import { createTopic, LoopbackServer, TopicClient, TopicServer } from "../src"
+import { FileTopicPersistence } from "../src/node"
+import { afterAll, describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+import { mkdtempSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+
+describe("Persistence tests", () => {
+    const directory = mkdtempSync(join(tmpdir(), "webtopics-"))
+    afterAll(() => {
+        rmSync(directory, { recursive: true, force: true })
+    })
+    const testTopic = createTopic("test", z.object({
+        testString: z.string(),
+        testNumber: z.number(),
+    }))
+    test("topics should be snapshotted after accepted diffs, and restored by a new server", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.attachPersistence(new FileTopicPersistence(directory), 10)
+        topicServer.initChannels([testTopic])
+        const received = new Promise(resolve => topicServer.sub(testTopic, resolve))
+        const topicClient = new TopicClient(loopbackServer.createClient())
+        topicClient.pub(testTopic, { testString: "test", testNumber: 1 })
+        await received
+        // Closed first, so the handshake of the client cannot schedule another snapshot after the flush
+        loopbackServer.close()
+        await topicServer.flushPersistence()
+        const restoredServer = new TopicServer(new LoopbackServer())
+        restoredServer.attachPersistence(new FileTopicPersistence(directory))
+        restoredServer.initChannels([testTopic])
+        expect(restoredServer.getTopicSync(testTopic)).toEqual({ testString: "test", testNumber: 1 })
+    })
+    test("restored snapshots should be validated against the schema", async () => {
+        writeFileSync(join(directory, "test.json"), JSON.stringify({ testString: 1 }))
+        const restoredServer = new TopicServer(new LoopbackServer())
+        restoredServer.attachPersistence(new FileTopicPersistence(directory))
+        restoredServer.initChannels([testTopic])
+        expect(restoredServer.hasValidTopic(testTopic)).toBe(false)
+    })
+    test("flushing should save pending snapshots immediately", async () => {
+        const topicServer = new TopicServer(new LoopbackServer())
+        const persistence = new FileTopicPersistence(directory)
+        topicServer.attachPersistence(persistence, 60000)
+        topicServer.initChannels([testTopic])
+        topicServer.pub(testTopic, { testString: "flushed", testNumber: 2 })
+        await topicServer.flushPersistence()
+        expect(persistence.load("test")).toEqual({ testString: "flushed", testNumber: 2 })
+    })
+})
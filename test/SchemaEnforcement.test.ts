@@ -0,0 +1,107 @@
+import { createTopic, DiffResult, JSONValue, LoopbackServer, SchemaEnforcement, serverMetaChannel, TopicChannel, TopicClient, TopicRejection, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+/**
+ * Client that claims to be another client in the messages it publishes
+ */
+class SpoofingClient extends TopicClient {
+    spoofedSource?: string
+
+    protected wrapTopicMessage<T extends JSONValue>(channel: TopicChannel<T>, diff: DiffResult<T, T>, source?: string) {
+        return super.wrapTopicMessage(channel, diff, this.spoofedSource ?? source)
+    }
+}
+
+describe("Schema enforcement tests", () => {
+    const settledTopic = createTopic("settled", z.record(z.number()))
+    let settled = 0
+    /**
+     * Messages are delivered in order, so everything the client sent before was handled and relayed once this returns
+     */
+    const settle = (client: TopicClient) => client.pubAck(settledTopic, { [client.id]: ++settled })
+    const setup = async (schemaEnforcement?: SchemaEnforcement) => {
+        const poseTopic = createTopic("pose", z.object({ x: z.number(), y: z.number() }), { schemaEnforcement })
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([poseTopic, settledTopic])
+        topicServer.pub(poseTopic, { x: 0, y: 0 })
+        const buggyClient = new SpoofingClient(loopbackServer.createClient())
+        const peerSocket = loopbackServer.createClient()
+        const peer = new TopicClient(peerSocket)
+        const rejections: TopicRejection[] = []
+        buggyClient.subRejections(rejection => rejections.push(rejection))
+        const relayed: any[] = []
+        peerSocket.on("ch-tp-us-pose", (msg) => {
+            if (msg.messageType === "topic" && msg.source === buggyClient.id) {
+                relayed.push(msg.modified)
+            }
+        })
+        await Promise.all([buggyClient.getServerID(), peer.getServerID(), buggyClient.getTopic(poseTopic, 1000), peer.getTopic(poseTopic, 1000)])
+        // Let the full topic exchange of the handshakes settle
+        await Promise.all([settle(buggyClient), settle(peer)])
+        return { poseTopic, topicServer, buggyClient, peer, rejections, relayed }
+    }
+    test("invalid diffs should be relayed by default", async () => {
+        const { poseTopic, buggyClient, peer, rejections, relayed } = await setup()
+        // @ts-expect-error - publishing garbage on purpose
+        buggyClient.pub(poseTopic, { x: "garbage", y: 0 })
+        await settle(buggyClient)
+        expect(relayed).toContainEqual({ x: "garbage" })
+        expect(rejections.length).toBe(0)
+        buggyClient.disconnect()
+        peer.disconnect()
+    })
+    test("invalid diffs should be rejected with the validation issues", async () => {
+        const { poseTopic, topicServer, buggyClient, peer, rejections, relayed } = await setup("reject")
+        // @ts-expect-error - publishing garbage on purpose
+        buggyClient.pub(poseTopic, { x: "garbage", y: 0 })
+        await settle(buggyClient)
+        expect(relayed.filter(diff => diff?.x === "garbage")).toEqual([])
+        expect(rejections.length).toBe(1)
+        expect(rejections[0]).toMatchObject({ channel: "pose", reason: "invalid" })
+        expect(rejections[0].issues?.[0].path).toEqual(["x"])
+        // The sender resyncs, and may publish valid diffs again
+        expect(await buggyClient.getTopic(poseTopic, 1000)).toEqual({ x: 0, y: 0 })
+        buggyClient.pub(poseTopic, { x: 1, y: 0 })
+        await settle(buggyClient)
+        expect(topicServer.getTopicSync(poseTopic)).toEqual({ x: 1, y: 0 })
+        expect(peer.getTopicSync(poseTopic)).toEqual({ x: 1, y: 0 })
+        buggyClient.disconnect()
+        peer.disconnect()
+    })
+    test("quarantined clients should have all their diffs dropped until released", async () => {
+        const { poseTopic, topicServer, buggyClient, peer, rejections } = await setup("quarantine")
+        // @ts-expect-error - publishing garbage on purpose
+        buggyClient.pub(poseTopic, { x: "garbage", y: 0 })
+        await settle(buggyClient)
+        expect(topicServer.getQuarantinedClients(poseTopic)).toEqual([buggyClient.id])
+        await buggyClient.getTopic(poseTopic, 1000)
+        buggyClient.pub(poseTopic, { x: 1, y: 0 })
+        await settle(buggyClient)
+        expect(topicServer.getTopicSync(poseTopic)).toEqual({ x: 0, y: 0 })
+        expect(rejections.map(rejection => rejection.reason)).toEqual(["invalid", "quarantined"])
+        topicServer.releaseQuarantine(poseTopic, buggyClient.id)
+        await buggyClient.getTopic(poseTopic, 1000)
+        buggyClient.pub(poseTopic, { x: 2, y: 0 })
+        await settle(buggyClient)
+        expect(peer.getTopicSync(poseTopic)).toEqual({ x: 2, y: 0 })
+        buggyClient.disconnect()
+        peer.disconnect()
+    })
+    test("clients should not be able to get other clients quarantined", async () => {
+        const { poseTopic, topicServer, buggyClient, peer } = await setup("quarantine")
+        // Claiming to be the bridge the peer is reachable through, and publishing garbage as the peer
+        buggyClient.pub(serverMetaChannel, { clients: { [peer.id]: { services: {}, via: buggyClient.id } } }, true, false)
+        buggyClient.spoofedSource = peer.id
+        // @ts-expect-error - publishing garbage on purpose
+        buggyClient.pub(poseTopic, { x: "garbage", y: 0 })
+        await settle(buggyClient)
+        expect(topicServer.getQuarantinedClients(poseTopic)).toEqual([buggyClient.id])
+        peer.pub(poseTopic, { x: 1, y: 0 })
+        await settle(peer)
+        expect(topicServer.getTopicSync(poseTopic)).toEqual({ x: 1, y: 0 })
+        buggyClient.disconnect()
+        peer.disconnect()
+    })
+})
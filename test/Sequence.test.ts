@@ -0,0 +1,96 @@
+import { createTopic, LoopbackServer, ResyncEvent, TopicClient, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Sequence number tests", () => {
+    const testTopic = createTopic("sequence", z.object({
+        value: z.number(),
+    }))
+    const topicMessage = (value: number, number: number) => ({
+        modified: { value },
+        timestamp: Date.now(),
+        messageType: "topic",
+        source: "raw",
+        seq: { node: "raw", number },
+    })
+    test("topic messages should carry sequence numbers", (done) => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([testTopic])
+        const rawClient = loopbackServer.createClient()
+        const numbers: number[] = []
+        rawClient.on("ch-tp-us-sequence", (msg) => {
+            if (msg.messageType === "topic") {
+                expect(msg.seq.node).toBe(topicServer.id)
+                numbers.push(msg.seq.number)
+                if (numbers.length === 2) {
+                    expect(numbers[1]).toBe(numbers[0] + 1)
+                    rawClient.disconnect()
+                    done()
+                }
+            }
+        })
+        rawClient.on("connect", () => {
+            topicServer.pub(testTopic, { value: 1 })
+            topicServer.pub(testTopic, { value: 2 })
+        })
+    })
+    test("gaps should trigger a resync, and stale messages should be dropped", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([testTopic])
+        const resynced = new Promise<ResyncEvent>(resolve => topicServer.subResync(resolve))
+        const rawClient = loopbackServer.createClient()
+        const requests: unknown[] = []
+        const requested = new Promise(resolve => rawClient.on("ch-tp-us-sequence", (msg) => {
+            if (msg.messageType === "requestFullTopic") {
+                requests.push(msg)
+                resolve(msg)
+            }
+        }))
+        const values: number[] = []
+        // Messages are delivered in order, so the stale message is handled before the last one
+        const applied = new Promise<void>(resolve => topicServer.sub(testTopic, ({ value }) => {
+            values.push(value)
+            if (value === 4) {
+                resolve()
+            }
+        }, false))
+        rawClient.emit("ch-tp-us-sequence", topicMessage(1, 1))
+        rawClient.emit("ch-tp-us-sequence", topicMessage(3, 3))
+        rawClient.emit("ch-tp-us-sequence", topicMessage(2, 2))
+        rawClient.emit("ch-tp-us-sequence", topicMessage(4, 4))
+        const [resync] = await Promise.all([resynced, requested, applied])
+        expect(values).toEqual([1, 3, 4])
+        expect(resync).toMatchObject({ node: "raw", expected: 2, received: 3 })
+        expect(requests.length).toBe(1)
+        rawClient.disconnect()
+    })
+    test("messages the server drops should not show up as gaps to the other clients", async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([testTopic])
+        topicServer.setSchemaEnforcement(testTopic, "reject")
+        topicServer.pub(testTopic, { value: 0 })
+        const publisher = new TopicClient(loopbackServer.createClient())
+        const observer = new TopicClient(loopbackServer.createClient())
+        await Promise.all([publisher.getTopic(testTopic, 1000), observer.getTopic(testTopic, 1000)])
+        const resyncs: ResyncEvent[] = []
+        observer.subResync(event => resyncs.push(event))
+        const applied = new Promise<void>(resolve => observer.sub(testTopic, ({ value }) => {
+            if (value === 3) {
+                resolve()
+            }
+        }, false))
+        const rejected = new Promise(resolve => publisher.subRejections(resolve))
+        publisher.pub(testTopic, { value: 1 })
+        // @ts-expect-error - publishing garbage on purpose
+        publisher.pub(testTopic, { value: "garbage" })
+        await rejected
+        publisher.pub(testTopic, { value: 3 })
+        await applied
+        expect(resyncs).toEqual([])
+        publisher.disconnect()
+        observer.disconnect()
+    })
+})
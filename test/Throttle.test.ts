@@ -0,0 +1,69 @@
+import { createTopic, LoopbackServer, TopicClient, TopicServer, TopicThrottleOptions } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe("Throttle tests", () => {
+    const schema = z.object({
+        sample: z.number(),
+        sensor: z.string(),
+    })
+    const publishSamples = async (throttle: TopicThrottleOptions) => {
+        const throttledTopic = createTopic("throttled", schema, { throttle })
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([throttledTopic])
+        const rawClient = loopbackServer.createClient()
+        const received: any[] = []
+        // Every throttle ends up sending the last sample
+        const trailing = new Promise(resolve => rawClient.on("ch-tp-us-throttled", (msg) => {
+            if (msg.messageType === "topic") {
+                received.push(msg.modified)
+                if (msg.modified.sample === 9) {
+                    resolve(undefined)
+                }
+            }
+        }))
+        await new Promise(resolve => rawClient.on("connect", resolve))
+        const seen: number[] = []
+        topicServer.sub(throttledTopic, (value) => seen.push(value.sample))
+        for (let i = 0; i < 10; i++) {
+            topicServer.pub(throttledTopic, { sample: i, sensor: "lidar" })
+        }
+        // Local subscribers see every update immediately
+        expect(seen).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+        await trailing
+        rawClient.disconnect()
+        return received
+    }
+    test("updates within a window should be coalesced into one trailing message", async () => {
+        const received = await publishSamples({ minIntervalMs: 50 })
+        expect(received).toEqual([{ sample: 0, sensor: "lidar" }, { sample: 9 }])
+    })
+    test("without leading, the first update should wait for the end of the window", async () => {
+        const received = await publishSamples({ maxHz: 20, leading: false })
+        expect(received).toEqual([{ sample: 9, sensor: "lidar" }])
+    })
+    test("without trailing, coalesced updates should be sent with the next update", async () => {
+        const throttledTopic = createTopic("throttled", schema, { throttle: { minIntervalMs: 20, trailing: false } })
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([throttledTopic])
+        const topicClient = new TopicClient(loopbackServer.createClient())
+        await topicClient.getServerID()
+        topicClient.pub(throttledTopic, { sample: 0, sensor: "lidar" })
+        topicClient.pub(throttledTopic, { sample: 1, sensor: "lidar" })
+        // Let the window pass, which does not send the coalesced update by itself
+        await sleep(50)
+        expect(topicServer.getTopicSync(throttledTopic)).toEqual({ sample: 0, sensor: "lidar" })
+        const updated = new Promise(resolve => topicServer.sub(throttledTopic, (value, unsub) => {
+            unsub()
+            resolve(value)
+        }, false))
+        topicClient.pub(throttledTopic, { sample: 2, sensor: "radar" })
+        await updated
+        expect(topicServer.getTopicSync(throttledTopic)).toEqual({ sample: 2, sensor: "radar" })
+        topicClient.disconnect()
+    })
+})
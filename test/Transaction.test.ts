@@ -0,0 +1,127 @@
+import { createTopic, LoopbackServer, TopicClient, TopicRejection, TopicServer } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+
+describe("Transaction tests", () => {
+    const missionTopic = createTopic("mission", z.object({ id: z.string(), robot: z.string().nullable() }))
+    const robotStateTopic = createTopic("robotState", z.object({ state: z.string(), mission: z.string().nullable() }))
+    const settledTopic = createTopic("settled", z.object({ settled: z.boolean() }))
+    const setup = async () => {
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([missionTopic, robotStateTopic, settledTopic])
+        topicServer.pub(missionTopic, { id: "m1", robot: null })
+        topicServer.pub(robotStateTopic, { state: "idle", mission: null })
+        const dispatcher = new TopicClient(loopbackServer.createClient())
+        const dashboard = new TopicClient(loopbackServer.createClient())
+        await Promise.all([dispatcher.getTopic(missionTopic, 1000), dispatcher.getTopic(robotStateTopic, 1000), dashboard.getTopic(missionTopic, 1000), dashboard.getTopic(robotStateTopic, 1000)])
+        // The clients still answer the full topic requests the server sent when they connected, and the server relays the answers.
+        // Messages are delivered in order, so each acknowledged publish waits out one of those steps
+        await dashboard.pubAck(settledTopic, { settled: true })
+        await dashboard.pubAck(settledTopic, { settled: false })
+        return { loopbackServer, topicServer, dispatcher, dashboard }
+    }
+    const rejected = (client: TopicClient, count: number) => new Promise<TopicRejection[]>(resolve => {
+        const rejections: TopicRejection[] = []
+        client.subRejections(rejection => {
+            rejections.push(rejection)
+            if (rejections.length === count) {
+                resolve(rejections)
+            }
+        })
+    })
+    test("subscribers should only be called after all topics of a transaction are updated", async () => {
+        const { topicServer, dispatcher, dashboard } = await setup()
+        const seen: Array<[string | null, string | null]> = []
+        const updated = new Promise<void>(resolve => {
+            const record = () => {
+                seen.push([dashboard.getTopicSync(missionTopic).robot, dashboard.getTopicSync(robotStateTopic).mission])
+                if (seen.length === 2) {
+                    resolve()
+                }
+            }
+            dashboard.sub(missionTopic, record, false)
+            dashboard.sub(robotStateTopic, record, false)
+        })
+        dispatcher.transaction(tx => {
+            tx.pub(missionTopic, { id: "m1", robot: "r1" })
+            tx.pub(robotStateTopic, { state: "busy", mission: "m1" })
+        })
+        await updated
+        expect(seen).toEqual([["r1", "m1"], ["r1", "m1"]])
+        expect(topicServer.getTopicSync(missionTopic)).toEqual({ id: "m1", robot: "r1" })
+        expect(topicServer.getTopicSync(robotStateTopic)).toEqual({ state: "busy", mission: "m1" })
+        dispatcher.disconnect()
+        dashboard.disconnect()
+    })
+    test("transactions that would make a topic invalid should not be published", async () => {
+        const { topicServer, dispatcher, dashboard } = await setup()
+        expect(() => dispatcher.transaction(tx => {
+            tx.pub(missionTopic, { id: "m2", robot: "r1" })
+            // @ts-expect-error - publishing garbage on purpose
+            tx.pubDiff(robotStateTopic, { modified: { state: 42 } })
+        })).toThrow()
+        // Anything published before reaches the server before the acknowledged publish
+        await dispatcher.pubAck(robotStateTopic, { state: "charging", mission: null })
+        expect(dispatcher.getTopicSync(missionTopic).id).toBe("m1")
+        expect(topicServer.getTopicSync(missionTopic).id).toBe("m1")
+        dispatcher.disconnect()
+        dashboard.disconnect()
+    })
+    test("the server should drop the whole transaction if any part is rejected", async () => {
+        const lockedStateTopic = createTopic("robotState", robotStateTopic.schema, { permissions: { publish: [] } })
+        const { topicServer, dispatcher, dashboard } = await setup()
+        topicServer.setTopicPermissions(lockedStateTopic, lockedStateTopic.permissions)
+        const rejections = rejected(dispatcher, 2)
+        dispatcher.transaction(tx => {
+            tx.pub(missionTopic, { id: "m1", robot: "r1" })
+            tx.pub(robotStateTopic, { state: "busy", mission: "m1" })
+        })
+        // Whatever the server relayed before rejecting reached the dashboard first
+        expect((await rejections).map(rejection => [rejection.channel, rejection.reason])).toEqual([["robotState", "unauthorized"], ["mission", "aborted"]])
+        expect(topicServer.getTopicSync(missionTopic)).toEqual({ id: "m1", robot: null })
+        expect(dashboard.getTopicSync(missionTopic)).toEqual({ id: "m1", robot: null })
+        // The sender resyncs both topics
+        expect(await dispatcher.getTopic(missionTopic, 1000)).toEqual({ id: "m1", robot: null })
+        dispatcher.disconnect()
+        dashboard.disconnect()
+    })
+    test("aborted transactions should not make the sender the owner of any topic", async () => {
+        const { topicServer, dispatcher, dashboard } = await setup()
+        topicServer.setTopicPermissions(missionTopic, { publish: "owner" })
+        topicServer.setTopicPermissions(robotStateTopic, { publish: [] })
+        const rejections = rejected(dispatcher, 2)
+        dispatcher.transaction(tx => {
+            tx.pub(missionTopic, { id: "m1", robot: "r1" })
+            tx.pub(robotStateTopic, { state: "busy", mission: "m1" })
+        })
+        await rejections
+        expect(topicServer.getTopicOwner(missionTopic)).toBeUndefined()
+        // Another client can still claim it
+        await dashboard.pubAck(missionTopic, { id: "m1", robot: "r2" })
+        expect(topicServer.getTopicOwner(missionTopic)).toBe(dashboard.id)
+        dispatcher.disconnect()
+        dashboard.disconnect()
+    })
+    test("transactions the server drops should not be relayed", async () => {
+        const { loopbackServer, topicServer, dispatcher, dashboard } = await setup()
+        // A client with an outdated schema, which allows transactions the server does not
+        const looseMissionTopic = createTopic("mission", z.object({ id: z.string(), robot: z.union([z.string(), z.number()]).nullable() }))
+        // Raw client to observe what the server relays
+        const rawClient = loopbackServer.createClient()
+        const relayed: unknown[] = []
+        rawClient.on("transaction", (data) => relayed.push(data))
+        const rejections = rejected(dispatcher, 2)
+        dispatcher.transaction(tx => {
+            tx.pub(looseMissionTopic, { id: "m1", robot: 1 })
+            tx.pub(robotStateTopic, { state: "busy", mission: "m1" })
+        })
+        // Whatever the server relayed before rejecting reached the raw client first
+        expect((await rejections).map(rejection => [rejection.channel, rejection.reason])).toEqual([["mission", "aborted"], ["robotState", "aborted"]])
+        expect(topicServer.getTopicSync(robotStateTopic)).toEqual({ state: "idle", mission: null })
+        expect(relayed).toEqual([])
+        dispatcher.disconnect()
+        dashboard.disconnect()
+        rawClient.disconnect()
+    })
+})
@@ -0,0 +1,77 @@
+import { createTopic, LoopbackServer, TopicClient, TopicServer, TopicValidity } from "../src"
+import { describe, expect, test } from "@jest/globals"
+import { z, ZodError } from "zod"
+
+describe("Validity subscription tests", () => {
+    const settledTopic = createTopic("settled", z.record(z.number()))
+    let settled = 0
+    /**
+     * Messages are delivered in order, so everything the client sent before was handled and relayed once this returns
+     */
+    const settle = (client: TopicClient) => client.pubAck(settledTopic, { [client.id]: ++settled })
+    test("transitions between valid and invalid diffs should be reported with their source", async () => {
+        const poseTopic = createTopic("pose", z.object({ x: z.number(), y: z.number() }))
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([poseTopic, settledTopic])
+        topicServer.pub(poseTopic, { x: 0, y: 0 })
+        const buggyClient = new TopicClient(loopbackServer.createClient())
+        const dashboard = new TopicClient(loopbackServer.createClient())
+        const transitions: TopicValidity[] = []
+        dashboard.subValidity(poseTopic, (validity) => transitions.push(validity))
+        await Promise.all([buggyClient.getTopic(poseTopic, 1000), dashboard.getTopic(poseTopic, 1000)])
+        // Let the full topic exchange of the handshakes settle
+        await Promise.all([settle(buggyClient), settle(dashboard)])
+        expect(dashboard.getValidationError(poseTopic)).toBeUndefined()
+        // @ts-expect-error - publishing garbage on purpose
+        buggyClient.pub(poseTopic, { x: "garbage", y: 0 })
+        // @ts-expect-error - publishing garbage on purpose
+        buggyClient.pub(poseTopic, { x: "more garbage", y: 0 })
+        await settle(buggyClient)
+        expect(transitions.length).toBe(1)
+        expect(transitions[0]).toMatchObject({ valid: false, source: buggyClient.id })
+        expect(transitions[0].error).toBeInstanceOf(ZodError)
+        expect(dashboard.getValidationError(poseTopic)?.source).toBe(buggyClient.id)
+        expect(dashboard.getValidationError(poseTopic)?.error.issues[0].path).toEqual(["x"])
+        // The last valid value is kept
+        expect(dashboard.getTopicSync(poseTopic)).toEqual({ x: 0, y: 0 })
+        const valid = new Promise(resolve => dashboard.subValidity(poseTopic, (validity) => {
+            if (validity.valid) {
+                resolve(undefined)
+            }
+        }))
+        topicServer.pub(poseTopic, { x: 1, y: 0 })
+        await valid
+        expect(transitions.map(({ valid, source }) => [valid, source])).toEqual([[false, buggyClient.id], [true, topicServer.id]])
+        expect(dashboard.getValidationError(poseTopic)).toBeUndefined()
+        buggyClient.disconnect()
+        dashboard.disconnect()
+    })
+    test("resetting a topic should clear its validation error", async () => {
+        const poseTopic = createTopic("pose", z.object({ x: z.number(), y: z.number() }))
+        const loopbackServer = new LoopbackServer()
+        const topicServer = new TopicServer(loopbackServer)
+        topicServer.initChannels([poseTopic, settledTopic])
+        topicServer.pub(poseTopic, { x: 0, y: 0 })
+        const buggyClient = new TopicClient(loopbackServer.createClient())
+        const dashboard = new TopicClient(loopbackServer.createClient())
+        await Promise.all([buggyClient.getTopic(poseTopic, 1000), dashboard.getTopic(poseTopic, 1000)])
+        // Let the full topic exchange of the handshakes settle
+        await Promise.all([settle(buggyClient), settle(dashboard)])
+        const transitions: TopicValidity[] = []
+        const invalid = new Promise(resolve => dashboard.subValidity(poseTopic, (validity) => {
+            transitions.push(validity)
+            resolve(undefined)
+        }))
+        // @ts-expect-error - publishing garbage on purpose
+        buggyClient.pub(poseTopic, { x: "garbage", y: 0 })
+        await invalid
+        expect(dashboard.getValidationError(poseTopic)?.source).toBe(buggyClient.id)
+        dashboard.resetTopic(poseTopic)
+        expect(dashboard.getValidationError(poseTopic)).toBeUndefined()
+        // Listeners that saw the error are told it was cleared
+        expect(transitions.map(({ valid, source }) => [valid, source])).toEqual([[false, buggyClient.id], [true, dashboard.id]])
+        buggyClient.disconnect()
+        dashboard.disconnect()
+    })
+})
@@ -0,0 +1,55 @@
+import { createService, createTopic, serverMetaChannel, TopicClient, TopicServer, WebSocketClientAdapter, WebSocketServerAdapter } from "../src"
+import { afterAll, describe, expect, test } from "@jest/globals"
+import { z } from "zod"
+import { WebSocket, WebSocketServer, AddressInfo } from "ws"
+
+describe("WebSocket adapter tests", () => {
+    const socketServer = new WebSocketServer({ port: 0 })
+    const socketServerPort = (socketServer.address() as AddressInfo).port
+    const topicServer = new TopicServer(new WebSocketServerAdapter(socketServer))
+    const testTopicSchema = z.object({
+        testString: z.string(),
+        testNumber: z.number(),
+    })
+    const testTopic = createTopic("test", testTopicSchema)
+    const testService = createService("test", z.object({
+        a: z.number(),
+        b: z.number()
+    }),
+        z.number()
+    )
+    topicServer.initChannels([testTopic, testService])
+    const topicClient1 = new TopicClient(new WebSocketClientAdapter(new WebSocket(`ws://localhost:${socketServerPort}`)))
+    const topicClient2 = new TopicClient(new WebSocketClientAdapter(new WebSocket(`ws://localhost:${socketServerPort}`)))
+    afterAll(() => {
+        topicClient1.disconnect()
+        topicClient2.disconnect()
+        socketServer.close()
+    })
+    test("clients should connect and appear in server meta", (done) => {
+        topicServer.sub(serverMetaChannel, (meta, unsub) => {
+            if (meta.clients[topicClient1.id] !== undefined && meta.clients[topicClient2.id] !== undefined) {
+                unsub()
+                done()
+            }
+        })
+    }, 2000)
+    test("client1 should be able to publish topic, and client2 should receive it through the server broadcast", (done) => {
+        topicClient2.sub(testTopic, (data, unsub) => {
+            unsub()
+            expect(data).toEqual({
+                testString: "test",
+                testNumber: 1,
+            })
+            done()
+        })
+        topicClient1.pub(testTopic, {
+            testString: "test",
+            testNumber: 1,
+        })
+    })
+    test("client1 should be able to call a service served by client2", async () => {
+        topicClient2.srv(testService, ({ a, b }) => a + b)
+        await expect(topicClient1.req(testService, topicClient2.id, { a: 1, b: 2 }, 500)).resolves.toBe(3)
+    })
+})